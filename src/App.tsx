@@ -5,6 +5,7 @@ import Layout from "./components/Layout";
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Workshop = lazy(() => import("./pages/Workshop"));
 const Settings = lazy(() => import("./pages/Settings"));
+const Member = lazy(() => import("./pages/Member"));
 
 export default function App() {
   return (
@@ -12,6 +13,7 @@ export default function App() {
       <Route path="/" component={Dashboard} />
       <Route path="/workshop" component={Workshop} />
       <Route path="/settings" component={Settings} />
+      <Route path="/members/:id" component={Member} />
     </Router>
   );
 }
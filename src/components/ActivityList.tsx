@@ -1,5 +1,6 @@
 import { For } from "solid-js";
 import { Badge } from "@kobalte/core/badge";
+import { useDensity } from "~/stores/density";
 
 interface Activity {
   id: number;
@@ -25,23 +26,25 @@ const badgeColors: Record<Activity["status"], string> = {
 };
 
 export default function ActivityList() {
+  const density = useDensity();
+
   return (
-    <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
+    <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
       <h3 class="text-base font-semibold mb-4">Recent Activity</h3>
-      <ul class="space-y-4">
+      <ul class={density().stack}>
         <For each={activities}>
           {(item) => (
             <li class="flex items-start gap-3">
-              <div class="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-xs font-bold text-gray-600 shrink-0">
+              <div class="w-8 h-8 rounded-full bg-surface-muted flex items-center justify-center text-xs font-bold text-fg-muted shrink-0">
                 {item.user[0]}
               </div>
               <div class="flex-1 min-w-0">
                 <p class="text-sm">
                   <span class="font-medium">{item.user}</span>{" "}
                   {item.action}{" "}
-                  <span class="text-gray-600">{item.target}</span>
+                  <span class="text-fg-muted">{item.target}</span>
                 </p>
-                <p class="text-xs text-gray-400 mt-0.5">{item.time}</p>
+                <p class="text-xs text-fg-subtle mt-0.5">{item.time}</p>
               </div>
               <Badge class={`text-xs px-2 py-0.5 rounded-full font-medium shrink-0 ${badgeColors[item.status]}`}>
                 {item.status}
@@ -0,0 +1,34 @@
+import { Show, createEffect, createSignal, on } from "solid-js";
+
+// "Ada Lovelace" → "AL", "cher" → "C", "" → "?". Array.from keeps
+// emoji and other astral characters whole instead of splitting a
+// surrogate pair.
+export function initials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  const first = Array.from(words[0])[0];
+  const last = words.length > 1 ? Array.from(words[words.length - 1])[0] : "";
+  return (first + last).toUpperCase();
+}
+
+/**
+ * Profile picture with an initials fallback — shown when there's no
+ * image, and when the image fails to load (a corrupt data URL).
+ */
+export default function Avatar(props: { name: string; src?: string; class?: string }) {
+  const [failed, setFailed] = createSignal(false);
+  // A new image gets a fresh chance
+  createEffect(on(() => props.src, () => setFailed(false), { defer: true }));
+
+  return (
+    <span
+      class={`rounded-full overflow-hidden bg-accent text-on-accent flex items-center justify-center font-bold shrink-0 ${
+        props.class ?? "w-9 h-9 text-sm"
+      }`}
+    >
+      <Show when={props.src && !failed()} fallback={<span aria-hidden>{initials(props.name)}</span>}>
+        <img src={props.src} alt="" class="w-full h-full object-cover" onError={() => setFailed(true)} />
+      </Show>
+    </span>
+  );
+}
@@ -0,0 +1,106 @@
+import { For, Show, createSignal } from "solid-js";
+import type { BulkAction, BulkActionRegistry } from "~/stores/bulkActions";
+import type { DataSource } from "~/data/source";
+import type { Selection } from "~/stores/selection";
+
+interface BulkActionBarProps<Row> {
+  selection: Selection<Row>;
+  registry: BulkActionRegistry<Row>;
+  source: DataSource<Row>;
+  refetch: () => void;
+}
+
+const toneClass = {
+  default: "border-line-strong hover:bg-surface-muted",
+  danger: "border-red-200 text-red-600 hover:bg-red-50",
+};
+
+/**
+ * Sticky bar shown while rows are selected. Buttons come from the
+ * registry; actions with `choices` render as a picker instead.
+ */
+export default function BulkActionBar<Row>(props: BulkActionBarProps<Row>) {
+  const [running, setRunning] = createSignal<string | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  async function run(action: BulkAction<Row>, choice?: string) {
+    const rows = props.selection.rows();
+    if (action.confirm && !window.confirm(action.confirm(rows))) return;
+
+    setRunning(action.id);
+    setError(null);
+    try {
+      await action.run({
+        rows,
+        choice,
+        source: props.source,
+        clearSelection: props.selection.clear,
+        refetch: props.refetch,
+      });
+    } catch (err) {
+      setError(`${action.label} failed: ${String(err)}`);
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  const buttonClass = (action: BulkAction<Row>) =>
+    `px-3 py-1 text-xs font-medium rounded-lg border bg-surface disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer ${
+      toneClass[action.tone ?? "default"]
+    }`;
+
+  return (
+    <div class="sticky top-0 z-10 flex flex-wrap items-center gap-2 bg-accent-soft border border-accent-soft rounded-lg px-3 py-2 mt-3">
+      <span class="text-xs font-medium text-accent-strong mr-auto">
+        {props.selection.count()} selected
+      </span>
+
+      <For each={props.registry.actions()}>
+        {(action) => (
+          <Show
+            when={action.choices}
+            fallback={
+              <button
+                type="button"
+                disabled={running() !== null}
+                onClick={() => run(action)}
+                class={buttonClass(action)}
+              >
+                {running() === action.id ? "Working…" : action.label}
+              </button>
+            }
+          >
+            {(choices) => (
+              <select
+                value=""
+                disabled={running() !== null}
+                onChange={(e) => {
+                  const choice = e.currentTarget.value;
+                  e.currentTarget.value = "";
+                  if (choice) run(action, choice);
+                }}
+                aria-label={action.label}
+                class={buttonClass(action)}
+              >
+                <option value="">{running() === action.id ? "Working…" : `${action.label}…`}</option>
+                <For each={choices()}>{(choice) => <option value={choice}>{choice}</option>}</For>
+              </select>
+            )}
+          </Show>
+        )}
+      </For>
+
+      <button
+        type="button"
+        onClick={() => props.selection.clear()}
+        class="text-xs text-fg-muted hover:text-fg underline cursor-pointer"
+      >
+        Clear
+      </button>
+
+      <Show when={error()}>
+        <p class="basis-full text-xs text-red-600">{error()}</p>
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,523 @@
+import { For, Show, createEffect, createMemo, createSignal, onCleanup, onMount } from "solid-js";
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Chart — line, area and bar series over a shared x axis
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Every series has one value per label (per day, here):
+ *
+ *    labels:  Oct 1   Oct 2   Oct 3   …
+ *    Revenue  1204    1388    1712    …
+ *    Previous  980    1150    1390    …
+ *
+ *  Unlike the Sparkline, the SVG is drawn in REAL pixels: a
+ *  ResizeObserver reports the container's width and every coordinate
+ *  is computed from it, so text and bars never stretch.
+ *
+ *    ┌──────┬──────────────────────────────┐
+ *    │ $2K ┈│┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈│  ← y ticks: "nice" numbers
+ *    │ $1K ┈│┈┈┈┈┈╭─╮┈┈┈┈┈┈┈┈╭──┈┈┈┈┈┈┈┈┈┈┈┈│     (see niceTicks)
+ *    │   0  │────╯   ╰──────╯              │
+ *    ├──────┼──────────────────────────────┤
+ *    │      │ Oct 1      Oct 8      Oct 15 │  ← x labels, thinned to fit
+ *    └──────┴──────────────────────────────┘
+ *     MARGIN.left        plot area
+ *
+ *  X positions: lines and areas run edge to edge (point i at
+ *  i / (n-1) of the width); as soon as one visible series is a bar,
+ *  every series switches to bands (point i at the CENTER of slot i),
+ *  so a line drawn over bars passes through their tops.
+ *
+ *  Interactions, all on the plot area:
+ *  - hover          → guide line + tooltip with every visible series
+ *  - drag           → brush; releasing zooms to the brushed range
+ *  - double-click   → reset zoom (so does the "Reset zoom" button)
+ *  - legend buttons → show/hide a series; the y axis rescales to
+ *                     what's visible
+ *
+ *  Screen readers get the same data as a visually hidden table.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export type ChartType = "line" | "area" | "bar";
+
+export const chartTypes: { value: ChartType; label: string }[] = [
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+  { value: "bar", label: "Bar" },
+];
+
+export interface ChartSeries {
+  id: string;
+  name: string;
+  /** One per label */
+  values: number[];
+  /** Any CSS color, e.g. "var(--accent)" */
+  color: string;
+  /** Overrides the chart's `type` for this series */
+  type?: ChartType;
+  /** Dashed stroke, for lines — e.g. a comparison series */
+  dashed?: boolean;
+}
+
+// ── Nice ticks ──
+
+/** Rounds a rough step to 1, 2 or 5 × a power of ten */
+function niceStep(rough: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const fraction = rough / magnitude;
+  const nice = fraction < 1.5 ? 1 : fraction < 3 ? 2 : fraction < 7 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Round-numbered ticks covering [min, max], about `count` of them:
+ *
+ *   niceTicks(13, 1712)  → [0, 500, 1000, 1500, 2000]
+ *   niceTicks(-3.2, 8)   → [-4, -2, 0, 2, 4, 6, 8]
+ *
+ * The first and last ticks are the axis bounds, so data always fits.
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1];
+  if (min === max) {
+    // A flat series still needs a range to sit in
+    const spread = Math.abs(min) * 0.5 || 1;
+    min -= spread;
+    max += spread;
+  }
+  const step = niceStep((max - min) / Math.max(count - 1, 1));
+  const first = Math.floor(min / step) * step;
+  const last = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  // Rounded to the step's precision, so 0.1 + 0.2 shows as 0.3
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  for (let value = first; value <= last + step / 2; value += step) {
+    ticks.push(Number(value.toFixed(decimals)));
+  }
+  return ticks;
+}
+
+// ── Component ──
+
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 56 };
+// Minimum room per x label before labels start being skipped
+const X_LABEL_SPACING = 72;
+
+interface ChartProps {
+  /** X axis categories, one per value */
+  labels: string[];
+  series: ChartSeries[];
+  /** Default for series without their own `type` */
+  type?: ChartType;
+  /** Values in the tooltip and the hidden table */
+  format?: (value: number) => string;
+  /** Y axis labels — usually shorter than `format`, e.g. "$1.5K" */
+  formatAxis?: (value: number) => string;
+  /** Total height in px, axes included */
+  height?: number;
+  /** Names the chart for screen readers */
+  label: string;
+  /** Show the legend (default true) — off for a single obvious series */
+  legend?: boolean;
+}
+
+export default function Chart(props: ChartProps) {
+  let container!: HTMLDivElement;
+  let plotArea!: SVGRectElement;
+
+  const format = (value: number) => (props.format ?? String)(value);
+  const formatAxis = (value: number) => (props.formatAxis ?? format)(value);
+
+  // ── Size ──
+
+  const [width, setWidth] = createSignal(0);
+  onMount(() => {
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    onCleanup(() => observer.disconnect());
+  });
+
+  const height = () => props.height ?? 240;
+  const plotWidth = () => Math.max(0, width() - MARGIN.left - MARGIN.right);
+  const plotHeight = () => Math.max(0, height() - MARGIN.top - MARGIN.bottom);
+
+  // ── Legend ──
+
+  const [hidden, setHidden] = createSignal<ReadonlySet<string>>(new Set());
+  const visible = createMemo(() => props.series.filter((s) => !hidden().has(s.id)));
+
+  function toggleSeries(id: string) {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }
+
+  // ── Zoom ──
+  // Held as the first and last LABEL of the range, not indices, so it
+  // survives new data: a live series that slides along (a sample every
+  // 2s) keeps showing the same points, clamped as the oldest age out.
+  // Once the last zoomed label is gone — the points aged out, or a new
+  // period brought different labels — the chart is unzoomed.
+
+  const [zoom, setZoom] = createSignal<[string, string] | null>(null);
+  createEffect(() => {
+    const current = zoom();
+    if (current && !props.labels.includes(current[1])) setZoom(null);
+  });
+
+  const range = createMemo((): [number, number] => {
+    const last = Math.max(props.labels.length - 1, 0);
+    const current = zoom();
+    const hi = current ? props.labels.lastIndexOf(current[1]) : -1;
+    if (!current || hi === -1) return [0, last];
+    const lo = props.labels.indexOf(current[0]);
+    return [lo === -1 || lo > hi ? 0 : lo, hi];
+  });
+  const indices = createMemo(() => {
+    const [lo, hi] = range();
+    return Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+  });
+
+  // ── Scales ──
+
+  const typeOf = (series: ChartSeries): ChartType => series.type ?? props.type ?? "line";
+  const banded = () => visible().some((s) => typeOf(s) === "bar");
+
+  const bandWidth = () => plotWidth() / indices().length;
+  const xAt = (index: number) => {
+    const [lo, hi] = range();
+    if (banded()) return MARGIN.left + (index - lo + 0.5) * bandWidth();
+    if (hi === lo) return MARGIN.left + plotWidth() / 2;
+    return MARGIN.left + ((index - lo) / (hi - lo)) * plotWidth();
+  };
+  /** The index under a pixel offset from the plot's left edge */
+  const indexAt = (offsetX: number) => {
+    const [lo, hi] = range();
+    const fraction = Math.min(Math.max(offsetX / plotWidth(), 0), 1);
+    const index = banded() ? lo + Math.floor(fraction * (hi - lo + 1)) : lo + Math.round(fraction * (hi - lo));
+    return Math.min(index, hi);
+  };
+
+  const yTicks = createMemo(() => {
+    const values = visible().flatMap((s) => indices().map((i) => s.values[i] ?? 0));
+    if (values.length === 0) return niceTicks(0, 1);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    // Bars and areas are measured from zero; leaving it out would exaggerate differences
+    if (visible().some((s) => typeOf(s) !== "line")) {
+      min = Math.min(min, 0);
+      max = Math.max(max, 0);
+    }
+    return niceTicks(min, max, Math.max(2, Math.floor(plotHeight() / 40)));
+  });
+  const yAt = (value: number) => {
+    const ticks = yTicks();
+    const min = ticks[0];
+    const max = ticks[ticks.length - 1];
+    return MARGIN.top + ((max - value) / (max - min)) * plotHeight();
+  };
+  const zeroY = () => yAt(Math.min(Math.max(0, yTicks()[0]), yTicks()[yTicks().length - 1]));
+
+  const xTicks = () => {
+    const all = indices();
+    const fit = Math.max(1, Math.floor(plotWidth() / X_LABEL_SPACING));
+    const every = Math.ceil(all.length / fit);
+    return all.filter((_, i) => i % every === 0);
+  };
+
+  // ── Shapes ──
+
+  const linePath = (series: ChartSeries) =>
+    indices()
+      .map((i, n) => `${n === 0 ? "M" : "L"}${xAt(i).toFixed(1)},${yAt(series.values[i] ?? 0).toFixed(1)}`)
+      .join("");
+  const areaPath = (series: ChartSeries) => {
+    const first = xAt(indices()[0]).toFixed(1);
+    const last = xAt(indices()[indices().length - 1]).toFixed(1);
+    const base = zeroY().toFixed(1);
+    return `${linePath(series)}L${last},${base}L${first},${base}Z`;
+  };
+
+  const barSeries = () => visible().filter((s) => typeOf(s) === "bar");
+  // Bars of one label sit side by side in 80% of its band
+  const barWidth = () => (bandWidth() * 0.8) / Math.max(barSeries().length, 1);
+  const barX = (index: number, slot: number) => xAt(index) - bandWidth() * 0.4 + slot * barWidth();
+
+  // ── Pointer: hover + brush ──
+
+  const [hover, setHover] = createSignal<number | null>(null);
+  const [brush, setBrush] = createSignal<{ from: number; to: number } | null>(null);
+
+  const offsetOf = (e: PointerEvent) => e.clientX - plotArea.getBoundingClientRect().left;
+
+  function handlePointerDown(e: PointerEvent) {
+    if (e.button !== 0) return;
+    const index = indexAt(offsetOf(e));
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setBrush({ from: index, to: index });
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    const index = indexAt(offsetOf(e));
+    setHover(index);
+    const current = brush();
+    if (current) setBrush({ ...current, to: index });
+  }
+
+  function handlePointerUp() {
+    const current = brush();
+    setBrush(null);
+    // A click (or a drag within one point) isn't a zoom
+    if (!current || current.from === current.to) return;
+    const lo = Math.min(current.from, current.to);
+    const hi = Math.max(current.from, current.to);
+    setZoom([props.labels[lo], props.labels[hi]]);
+  }
+
+  const brushRect = () => {
+    const current = brush();
+    if (!current || current.from === current.to) return null;
+    const lo = Math.min(current.from, current.to);
+    const hi = Math.max(current.from, current.to);
+    const half = banded() ? bandWidth() / 2 : 0;
+    return { x: xAt(lo) - half, width: xAt(hi) - xAt(lo) + half * 2 };
+  };
+
+  // Keeps the tooltip on the side of the guide line with more room
+  const tooltipStyle = () => {
+    const x = xAt(hover() ?? 0);
+    return x > width() / 2
+      ? { right: `${width() - x + 8}px`, top: `${MARGIN.top}px` }
+      : { left: `${x + 8}px`, top: `${MARGIN.top}px` };
+  };
+
+  return (
+    <div class="space-y-3">
+      {/* Legend */}
+      <div class="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs empty:hidden">
+        <For each={props.legend === false ? [] : props.series}>
+          {(series) => {
+            const shown = () => !hidden().has(series.id);
+            return (
+              <button
+                type="button"
+                aria-pressed={shown()}
+                // The last visible series can't be hidden: an empty chart says nothing
+                disabled={shown() && visible().length === 1}
+                onClick={() => toggleSeries(series.id)}
+                class={`flex items-center gap-1.5 cursor-pointer disabled:cursor-default ${
+                  shown() ? "text-fg" : "text-fg-subtle line-through"
+                }`}
+              >
+                <span
+                  class="inline-block w-3 h-3 rounded-sm"
+                  style={{ background: shown() ? series.color : "transparent", border: `2px solid ${series.color}` }}
+                />
+                {series.name}
+              </button>
+            );
+          }}
+        </For>
+        <Show when={zoom()}>
+          <button
+            type="button"
+            onClick={() => setZoom(null)}
+            class="ml-auto font-medium text-accent hover:underline cursor-pointer"
+          >
+            Reset zoom
+          </button>
+        </Show>
+      </div>
+
+      <div ref={container} class="relative" style={{ height: `${height()}px` }}>
+        <Show
+          when={props.labels.length > 0}
+          fallback={
+            <div class="h-full flex items-center justify-center rounded-lg border border-dashed border-line text-sm text-fg-subtle">
+              No data
+            </div>
+          }
+        >
+          <Show when={width() > 0}>
+            <svg width={width()} height={height()} aria-hidden="true" class="block select-none">
+              {/* Y grid + labels */}
+              <g class="text-fg-subtle">
+                <For each={yTicks()}>
+                  {(tick) => (
+                    <>
+                      <line
+                        x1={MARGIN.left}
+                        x2={MARGIN.left + plotWidth()}
+                        y1={yAt(tick)}
+                        y2={yAt(tick)}
+                        class={tick === 0 ? "stroke-line-strong" : "stroke-line"}
+                      />
+                      <text
+                        x={MARGIN.left - 8}
+                        y={yAt(tick)}
+                        text-anchor="end"
+                        dominant-baseline="middle"
+                        fill="currentColor"
+                        class="text-[11px] tabular-nums"
+                      >
+                        {formatAxis(tick)}
+                      </text>
+                    </>
+                  )}
+                </For>
+                <For each={xTicks()}>
+                  {(index) => (
+                    <text
+                      x={xAt(index)}
+                      y={height() - MARGIN.bottom + 18}
+                      text-anchor="middle"
+                      fill="currentColor"
+                      class="text-[11px]"
+                    >
+                      {props.labels[index]}
+                    </text>
+                  )}
+                </For>
+              </g>
+
+              {/* Bars first, so lines and areas draw over them */}
+              <For each={barSeries()}>
+                {(series, slot) => (
+                  <For each={indices()}>
+                    {(index) => {
+                      const value = () => series.values[index] ?? 0;
+                      return (
+                        <rect
+                          x={barX(index, slot())}
+                          width={Math.max(barWidth() - 1, 1)}
+                          y={Math.min(yAt(value()), zeroY())}
+                          height={Math.abs(zeroY() - yAt(value()))}
+                          fill={series.color}
+                          fill-opacity={hover() === null || hover() === index ? 0.9 : 0.5}
+                          rx="1"
+                        />
+                      );
+                    }}
+                  </For>
+                )}
+              </For>
+              <For each={visible().filter((s) => typeOf(s) === "area")}>
+                {(series) => <path d={areaPath(series)} fill={series.color} fill-opacity="0.15" />}
+              </For>
+              <For each={visible().filter((s) => typeOf(s) !== "bar")}>
+                {(series) => (
+                  <Show
+                    when={indices().length > 1}
+                    fallback={<circle cx={xAt(indices()[0])} cy={yAt(series.values[indices()[0]] ?? 0)} r="4" fill={series.color} />}
+                  >
+                    <path
+                      d={linePath(series)}
+                      fill="none"
+                      stroke={series.color}
+                      stroke-width="2"
+                      stroke-linejoin="round"
+                      stroke-dasharray={series.dashed ? "4 4" : undefined}
+                    />
+                  </Show>
+                )}
+              </For>
+
+              {/* Hover guide */}
+              <Show when={hover() !== null && !brush()}>
+                <line
+                  x1={xAt(hover()!)}
+                  x2={xAt(hover()!)}
+                  y1={MARGIN.top}
+                  y2={MARGIN.top + plotHeight()}
+                  class="stroke-line-strong"
+                />
+                <For each={visible().filter((s) => typeOf(s) !== "bar")}>
+                  {(series) => (
+                    <circle
+                      cx={xAt(hover()!)}
+                      cy={yAt(series.values[hover()!] ?? 0)}
+                      r="3.5"
+                      fill={series.color}
+                      class="stroke-surface"
+                      stroke-width="2"
+                    />
+                  )}
+                </For>
+              </Show>
+
+              <Show when={brushRect()}>
+                {(rect) => (
+                  <rect
+                    x={rect().x}
+                    width={rect().width}
+                    y={MARGIN.top}
+                    height={plotHeight()}
+                    class="fill-accent/15 stroke-accent"
+                  />
+                )}
+              </Show>
+
+              {/* Catches the pointer over the plot; drawn last so it's on top */}
+              <rect
+                ref={plotArea}
+                x={MARGIN.left}
+                y={MARGIN.top}
+                width={plotWidth()}
+                height={plotHeight()}
+                fill="transparent"
+                class="cursor-crosshair"
+                style={{ "touch-action": "pan-y" }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setBrush(null)}
+                onPointerLeave={() => setHover(null)}
+                onDblClick={() => setZoom(null)}
+              />
+            </svg>
+          </Show>
+
+          <Show when={hover() !== null && !brush()}>
+            <div class="kb-tooltip-content absolute pointer-events-none whitespace-nowrap" style={tooltipStyle()}>
+              <p class="font-medium mb-0.5">{props.labels[hover()!]}</p>
+              <For each={visible()}>
+                {(series) => (
+                  <p class="flex items-center gap-1.5 tabular-nums">
+                    <span class="inline-block w-2 h-2 rounded-full" style={{ background: series.color }} />
+                    <span class="opacity-70">{series.name}</span>
+                    <span class="ml-auto pl-3">{format(series.values[hover()!] ?? 0)}</span>
+                  </p>
+                )}
+              </For>
+            </div>
+          </Show>
+        </Show>
+      </div>
+
+      {/* The same numbers for screen readers (zoom and legend apply) */}
+      <table class="sr-only">
+        <caption>{props.label}</caption>
+        <thead>
+          <tr>
+            <th scope="col">Label</th>
+            <For each={visible()}>{(series) => <th scope="col">{series.name}</th>}</For>
+          </tr>
+        </thead>
+        <tbody>
+          <For each={indices()}>
+            {(index) => (
+              <tr>
+                <th scope="row">{props.labels[index]}</th>
+                <For each={visible()}>{(series) => <td>{format(series.values[index] ?? 0)}</td>}</For>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+    </div>
+  );
+}
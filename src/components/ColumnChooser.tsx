@@ -0,0 +1,48 @@
+import { For } from "solid-js";
+import { DropdownMenu } from "@kobalte/core/dropdown-menu";
+import type { ColumnLayoutStore } from "~/stores/columnLayout";
+
+/**
+ * Column visibility menu. Lists every column in the current order;
+ * required columns are shown but can't be unchecked. Reordering and
+ * resizing happen on the table headers themselves.
+ */
+export default function ColumnChooser<Row, Field extends string>(props: {
+  layout: ColumnLayoutStore<Row, Field>;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenu.Trigger class="px-3 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer">
+        Columns ▾
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content class="kb-menu-content">
+        <DropdownMenu.Group>
+          <DropdownMenu.GroupLabel class="kb-menu-label">Show columns</DropdownMenu.GroupLabel>
+          <For each={props.layout.ordered()}>
+            {(column) => (
+              <DropdownMenu.CheckboxItem
+                checked={props.layout.isVisible(column.id)}
+                onChange={() => props.layout.toggle(column.id)}
+                disabled={column.required}
+                closeOnSelect={false}
+                class="kb-menu-item"
+              >
+                <DropdownMenu.ItemIndicator class="kb-menu-indicator">✓</DropdownMenu.ItemIndicator>
+                {column.header}
+              </DropdownMenu.CheckboxItem>
+            )}
+          </For>
+        </DropdownMenu.Group>
+
+        <DropdownMenu.Separator class="kb-separator !my-1" />
+
+        <p class="px-2 py-1 text-[11px] text-fg-subtle max-w-48">
+          Drag a header to reorder, drag its edge to resize.
+        </p>
+        <DropdownMenu.Item class="kb-menu-item" onSelect={() => props.layout.reset()}>
+          Reset columns
+        </DropdownMenu.Item>
+      </DropdownMenu.Content>
+    </DropdownMenu>
+  );
+}
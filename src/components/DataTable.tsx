@@ -11,7 +11,8 @@
  *
  *  - `source` is a SIGNAL. When it changes, the fetcher re-runs.
  *    This is the key insight: a signal DRIVES the fetch.
- *    Here we use a `page` signal → changing page triggers a new fetch.
+ *    Here the source is the table state parsed from the URL (page, sort,
+ *    filters) → changing any of them triggers a new fetch.
  *
  *  - `fetcher(sourceValue, info)` receives the current source value.
  *    It returns a Promise. Solid tracks its lifecycle:
@@ -39,110 +40,154 @@
  *  with the nearest Suspense boundary (via SuspenseContext).
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
  */
-import { For, Show, createSignal, createResource, createEffect } from "solid-js";
+import {
+  For,
+  Show,
+  createSignal,
+  createResource,
+  createEffect,
+  createMemo,
+  on,
+  onCleanup,
+  type JSX,
+} from "solid-js";
 import { Separator } from "@kobalte/core/separator";
+import type { DataSource, Filter, ListResult, SortState } from "~/data/source";
+import {
+  memberExportColumns,
+  memberStatuses,
+  membersSource,
+  toExportRecord,
+  validateMemberField,
+  type EditableMemberField,
+  type MemberRow as Row,
+} from "~/data/members";
+import { exportRecords, fetchAllRows, type ExportFormat } from "~/data/export";
+import {
+  DEFAULT_PAGE_SIZE,
+  PAGE_SIZES,
+  emptyFilters,
+  useTableParams,
+  type MemberFilters,
+  type TableState,
+  type TableView,
+} from "~/stores/tableParams";
+import { createStore, reconcile } from "solid-js/store";
+import { createSelection } from "~/stores/selection";
+import { createColumnLayout, type ColumnDef } from "~/stores/columnLayout";
+import { useDensity } from "~/stores/density";
+import type { BulkActionRegistry } from "~/stores/bulkActions";
+import { memberBulkActions } from "~/stores/memberActions";
+import BulkActionBar from "./BulkActionBar";
+import ExportMenu, { type ExportScope } from "./ExportMenu";
+import EditableCell from "./EditableCell";
+import ColumnChooser from "./ColumnChooser";
+import { memberColumns } from "./memberColumns";
+import MemberDrawer from "./MemberDrawer";
+import VirtualTableBody from "./VirtualTableBody";
+import { showToast } from "./Toaster";
 
-// ── Types ──
-
-/** Shape returned by dummyjson.com/users */
-interface DummyUser {
-  id: number;
-  firstName: string;
-  lastName: string;
-  email: string;
-  age: number;
-  role: string;               // "admin" | "moderator" | "user"
-  company: { title: string }; // job title like "Sales Manager"
-}
+const SEARCH_DEBOUNCE_MS = 300;
 
-interface ApiResponse {
-  users: DummyUser[];
-  total: number;
-  skip: number;
-  limit: number;
-}
+// Scroll mode fetches rows in chunks of SCROLL_CHUNK as they come into view
+const SCROLL_CHUNK = 50;
 
-/** Our table row after mapping */
-interface Row {
-  id: number;
-  name: string;
-  email: string;
-  role: string;
-  status: "Active" | "Inactive" | "Pending";
-  revenue: string;
-}
+// Height of the scroll-mode viewport, in px
+const SCROLL_VIEWPORT = 488;
 
-const PAGE_SIZE = 8;
+const CHECKBOX_COLUMN_WIDTH = 32;
 
-// ── Mapping helpers ──
+// ── Fetcher ──
+// createResource calls this with the current query (the source signal
+// value). It knows nothing about URLs: the DataSource decides whether
+// rows come from dummyjson, a fixture file or an in-memory array.
 
-function deriveStatus(apiRole: string): Row["status"] {
-  // Map the API's "role" field to a display status
-  switch (apiRole) {
-    case "admin":     return "Active";
-    case "moderator": return "Pending";
-    default:          return "Inactive";
-  }
+function toFilter(filters: MemberFilters): Filter<Row> {
+  const equals: Partial<Row> = {};
+  if (filters.status) equals.status = filters.status;
+  if (filters.role) equals.role = filters.role;
+  return { search: filters.search, equals };
 }
 
-function deriveRevenue(id: number, age: number): string {
-  // Deterministic "revenue" seeded from id and age
-  const amount = id * 1340 + age * 210;
-  return `$${amount.toLocaleString("en-US")}`;
+// In scroll mode the resource only ever loads the first chunk; the
+// rest are fetched on demand as the user scrolls
+function fetchPage(source: DataSource<Row>, query: TableState): Promise<ListResult<Row>> {
+  const scrolling = query.view === "scroll";
+  return source.list({
+    page: scrolling ? 0 : query.page,
+    pageSize: scrolling ? SCROLL_CHUNK : query.pageSize,
+    sort: query.sort,
+    filter: toFilter(query.filters),
+  });
 }
 
-function mapUser(u: DummyUser): Row {
-  return {
-    id: u.id,
-    name: `${u.firstName} ${u.lastName}`,
-    email: u.email,
-    role: u.company.title,        // real job title from the API
-    status: deriveStatus(u.role),  // derived from system role
-    revenue: deriveRevenue(u.id, u.age),
-  };
-}
+// ── Sorting ──
+// Clicking a header cycles asc → desc → none. Sort state is part of the
+// resource source, so each click refetches through the DataSource instead
+// of reordering only the rows on screen. The REST source passes columns
+// the API knows to dummyjson's `sortBy`/`order`; computed ones (status,
+// revenue) are sorted in memory over every match (see data/source).
+// The header cells themselves live inside DataTable (ColumnHeader),
+// since they also drive the column layout.
 
-// ── Fetcher ──
-// This is the async function createResource will call.
-// It receives `page` (the source signal value) as first argument.
-
-async function fetchUsers(page: number): Promise<{ rows: Row[]; total: number }> {
-  const skip = page * PAGE_SIZE;
-  const url = `https://dummyjson.com/users?limit=${PAGE_SIZE}&skip=${skip}&select=id,firstName,lastName,email,role,company,age`;
+function nextSort(current: SortState<Row> | null, key: SortState<Row>["key"]): SortState<Row> | null {
+  if (current?.key !== key) return { key, direction: "asc" };
+  return current.direction === "asc" ? { key, direction: "desc" } : null;
+}
 
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`API error: ${res.status}`);
+// ── Filter chips ──
 
-  const data: ApiResponse = await res.json();
-  return {
-    rows: data.users.map(mapUser),
-    total: data.total,
-  };
+function FilterChip(props: { label: string; onRemove: () => void }) {
+  return (
+    <span class="inline-flex items-center gap-1 text-xs font-medium bg-accent-soft text-accent-strong rounded-full pl-2.5 pr-1 py-0.5">
+      {props.label}
+      <button
+        type="button"
+        onClick={props.onRemove}
+        aria-label={`Remove filter ${props.label}`}
+        class="w-4 h-4 rounded-full hover:bg-accent-soft leading-none cursor-pointer"
+      >
+        ×
+      </button>
+    </span>
+  );
 }
 
-// ── Status badge colors ──
+// ── Header checkbox ──
+// `indeterminate` is a DOM property with no HTML attribute, so it has
+// to be set through a ref inside an effect.
 
-const statusColor: Record<Row["status"], string> = {
-  Active: "bg-emerald-100 text-emerald-700",
-  Inactive: "bg-gray-100 text-gray-500",
-  Pending: "bg-amber-100 text-amber-700",
-};
+function PageCheckbox(props: { checked: boolean; indeterminate: boolean; onChange: () => void }) {
+  let input!: HTMLInputElement;
+  createEffect(() => (input.indeterminate = props.indeterminate));
+
+  return (
+    <input
+      ref={input}
+      type="checkbox"
+      checked={props.checked}
+      onChange={props.onChange}
+      aria-label="Select all on this page"
+      class="cursor-pointer accent-accent"
+    />
+  );
+}
 
 // ── Inline skeleton (shown during initial load, inside the component) ──
 
-function SkeletonRows() {
+function SkeletonRows(props: { count: number }) {
   return (
     <div class="animate-pulse space-y-4 mt-4">
-      <For each={Array.from({ length: PAGE_SIZE })}>
+      <For each={Array.from({ length: props.count })}>
         {() => (
           <div class="flex items-center gap-4">
             <div class="flex-1 space-y-1.5">
-              <div class="h-4 w-36 bg-gray-200 rounded" />
-              <div class="h-3 w-48 bg-gray-100 rounded" />
+              <div class="h-4 w-36 bg-surface-strong rounded" />
+              <div class="h-3 w-48 bg-surface-muted rounded" />
             </div>
-            <div class="h-4 w-24 bg-gray-200 rounded" />
-            <div class="h-5 w-16 bg-gray-200 rounded-full" />
-            <div class="h-4 w-20 bg-gray-200 rounded ml-auto" />
+            <div class="h-4 w-24 bg-surface-strong rounded" />
+            <div class="h-5 w-16 bg-surface-strong rounded-full" />
+            <div class="h-4 w-20 bg-surface-strong rounded ml-auto" />
           </div>
         )}
       </For>
@@ -170,9 +215,115 @@ function SkeletonRows() {
 // This is the "optimistic UI" pattern: always show the last known
 // good state while new data loads in the background.
 
-export default function DataTable() {
-  const [page, setPage] = createSignal(0);
-  const [users, { refetch }] = createResource(page, fetchUsers);
+interface DataTableProps {
+  /** Names this table's saved column layout — defaults to "members" */
+  id?: string;
+  /** Where rows come from — defaults to the app-wide members source */
+  source?: DataSource<Row>;
+  /** Bulk actions offered for selected rows — defaults to the members registry */
+  actions?: BulkActionRegistry<Row>;
+  /** Column definitions — defaults to the Team Members columns */
+  columns?: ColumnDef<Row, EditableMemberField>[];
+}
+
+export default function DataTable(props: DataTableProps) {
+  const source = () => props.source ?? membersSource;
+  const actions = () => props.actions ?? memberBulkActions;
+
+  // ── Columns ──
+  // Definitions are static; the layout (visibility, order, widths) is
+  // the user's, stored per table
+  const density = useDensity();
+  const layout = createColumnLayout(
+    props.columns ?? memberColumns,
+    () => `solid-dashboard:columns:${props.id ?? "members"}`
+  );
+  const visibleColumns = createMemo(layout.visible);
+  const colSpan = () => visibleColumns().length + 1;
+  const tableWidth = () => visibleColumns().reduce((sum, c) => sum + layout.width(c.id), CHECKBOX_COLUMN_WIDTH);
+
+  // ── Table state lives in the URL ──
+  // page, size, sort and filters are all parsed from the query string
+  // (see stores/tableParams). `tableState` is the resource source, so
+  // any URL change — a click here, a pasted link, browser back — refetches.
+  const [tableState, updateParams] = useTableParams();
+  const view = () => tableState().view;
+  const page = () => tableState().page;
+  const pageSize = () => tableState().pageSize;
+  const sort = () => tableState().sort;
+  const filters = () => tableState().filters;
+
+  const [users, { mutate, refetch }] = createResource(tableState, (q) => fetchPage(source(), q));
+
+  // Facet options come from the source too, so they match the backend
+  const [roles] = createResource(source, (s) => s.distinct("role"));
+
+  // Every filter change starts again from the first page. Search is
+  // written with `replace` so pausing mid-word doesn't add history entries.
+  function updateFilters(patch: Partial<MemberFilters>, options?: { replace?: boolean }) {
+    updateParams({ filters: { ...filters(), ...patch }, page: 0 }, options);
+  }
+
+  // ── Debounced search ──
+  // The input updates `searchInput` on every keystroke; only after the
+  // user pauses does it reach the URL (and therefore the fetch).
+  // onCleanup clears the pending timer whenever the effect re-runs.
+  const [searchInput, setSearchInput] = createSignal(filters().search);
+
+  createEffect(
+    on(
+      searchInput,
+      (value) => {
+        const timer = setTimeout(() => {
+          if (value.trim() !== filters().search) updateFilters({ search: value.trim() }, { replace: true });
+        }, SEARCH_DEBOUNCE_MS);
+        onCleanup(() => clearTimeout(timer));
+      },
+      { defer: true }
+    )
+  );
+
+  // Back/forward can change `q` underneath the input — follow it
+  createEffect(
+    on(
+      () => filters().search,
+      (search) => {
+        if (search !== searchInput().trim()) setSearchInput(search);
+      },
+      { defer: true }
+    )
+  );
+
+  function clearSearch() {
+    setSearchInput("");
+    updateFilters({ search: "" });
+  }
+
+  function clearAll() {
+    setSearchInput("");
+    updateParams({ filters: emptyFilters, page: 0 });
+  }
+
+  const hasFilters = () => {
+    const f = filters();
+    return Boolean(f.search || f.status || f.role);
+  };
+
+  function handleSort(key: SortState<Row>["key"]) {
+    updateParams({ sort: nextSort(sort(), key), page: 0 });
+  }
+
+  function goToPage(next: number) {
+    updateParams({ page: next });
+  }
+
+  function changePageSize(next: number) {
+    updateParams({ pageSize: next, page: 0 });
+  }
+
+  function changeView(next: TableView) {
+    updateParams({ view: next, page: 0 });
+  }
 
   // The "snapshot" pattern
   // ────────────────────────────────
@@ -185,7 +336,7 @@ export default function DataTable() {
   //   - During fetch: snapshot holds the PREVIOUS page's data
   //   - Fetch completes: snapshot updates to the new page's data
   //   - The table always has rows to display
-  const [snapshot, setSnapshot] = createSignal<{ rows: Row[]; total: number } | null>(null);
+  const [snapshot, setSnapshot] = createSignal<ListResult<Row> | null>(null);
 
   createEffect(() => {
     const data = users();
@@ -195,19 +346,495 @@ export default function DataTable() {
   // Derived state — all based on the stable snapshot
   const displayRows = () => snapshot()?.rows ?? [];
   const total = () => snapshot()?.total ?? 0;
-  const totalPages = () => Math.ceil(total() / PAGE_SIZE);
+  const totalPages = () => Math.ceil(total() / pageSize());
   const hasLoaded = () => snapshot() !== null;
   const isFetching = () => !hasLoaded() || users.state === "refreshing" || users.state === "pending";
 
+  // A stale link can point past the last page (e.g. ?page=99, or a
+  // filter that now matches fewer rows). Once we know the real total,
+  // snap back to the last page without adding a history entry.
+  createEffect(() => {
+    const data = users();
+    if (!data || view() === "scroll") return;
+    const lastPage = Math.max(0, Math.ceil(data.total / pageSize()) - 1);
+    if (page() > lastPage) updateParams({ page: lastPage }, { replace: true });
+  });
+
+  // ── Selection ──
+  // Keyed by Row.id, so it survives pagination, sorting and refetches.
+  // Fresh data replaces the stored row objects (e.g. after a status change).
+  const selection = createSelection<Row>((row) => row.id);
+
+  createEffect(() => {
+    const data = users();
+    if (data) selection.refresh(data.rows);
+  });
+
+  // ── Scroll mode ──
+  // The resource holds chunk 0; every later chunk is fetched the first
+  // time the virtual window reaches it and kept in a store keyed by
+  // chunk index. A new sort or filter set invalidates all of them —
+  // `generation` drops responses that arrive for the old query.
+  const [chunks, setChunks] = createStore<Record<number, Row[]>>({});
+  const pendingChunks = new Set<number>();
+  let generation = 0;
+  let scroller: HTMLDivElement | undefined;
+  const [scrollTop, setScrollTop] = createSignal(0);
+
+  const queryKey = createMemo(() => JSON.stringify([view(), sort(), filters()]));
+
+  createEffect(
+    on(queryKey, () => {
+      generation++;
+      pendingChunks.clear();
+      setChunks(reconcile({}));
+      if (scroller) scroller.scrollTop = 0;
+      setScrollTop(0);
+    })
+  );
+
+  async function loadChunk(index: number) {
+    if (index === 0 || chunks[index] || pendingChunks.has(index)) return;
+    const requested = generation;
+    pendingChunks.add(index);
+    try {
+      const result = await source().list({
+        page: index,
+        pageSize: SCROLL_CHUNK,
+        sort: sort(),
+        filter: toFilter(filters()),
+      });
+      if (requested === generation) {
+        setChunks(index, result.rows);
+        selection.refresh(result.rows);
+      }
+    } catch (err) {
+      if (requested === generation) {
+        showToast({ title: "Couldn't load more members", description: String(err), tone: "error" });
+      }
+    } finally {
+      // Left out of the cache on failure, so scrolling back retries it
+      if (requested === generation) pendingChunks.delete(index);
+    }
+  }
+
+  function loadRange(first: number, last: number) {
+    for (let c = Math.floor(first / SCROLL_CHUNK); c <= Math.floor(last / SCROLL_CHUNK); c++) {
+      void loadChunk(c);
+    }
+  }
+
+  // `undefined` = that row's chunk hasn't arrived yet
+  function rowAt(index: number): Row | undefined {
+    const chunk = Math.floor(index / SCROLL_CHUNK);
+    const rows = chunk === 0 ? displayRows() : chunks[chunk];
+    return rows?.[index % SCROLL_CHUNK];
+  }
+
+  // Every row currently in memory, in table order
+  const loadedRows = () => {
+    const later = Object.keys(chunks)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .flatMap((index) => chunks[index]);
+    return [...displayRows(), ...later];
+  };
+
+  // "This page" for selection purposes: the visible page, or everything
+  // loaded so far in scroll mode
+  const pageRows = () => (view() === "scroll" ? loadedRows() : displayRows());
+
+  const pageSelectedCount = () => pageRows().filter((row) => selection.isSelected(row.id)).length;
+  const pageFullySelected = () => pageRows().length > 0 && pageSelectedCount() === pageRows().length;
+  const [selectingAll, setSelectingAll] = createSignal(false);
+
+  // "Select all N matching" fetches every matching row once, so bulk
+  // actions get real rows rather than ids for pages never visited.
+  // Paged like "export all pages", so it doesn't rely on the API
+  // accepting one huge page.
+  async function selectAllMatching() {
+    setSelectingAll(true);
+    try {
+      selection.selectMany(await fetchAllRows(source(), { sort: sort(), filter: toFilter(filters()) }));
+    } catch (err) {
+      showToast({ title: "Couldn't select all matching members", description: String(err), tone: "error" });
+    } finally {
+      setSelectingAll(false);
+    }
+  }
+
+  // ── Inline editing (optimistic) ──
+  // `mutate` writes straight into the resource — no fetch — and the
+  // snapshot effect picks it up like any other data. So the edit shows
+  // instantly; the request runs in the background:
+  //
+  //   1. mutate → row shows the new value immediately
+  //   2. source.update → PATCH through the data layer
+  //   3a. success → take the field's value from the row the server returned
+  //   3b. failure → put the field's previous value back + error toast
+  //
+  // Edits to different fields of a row are independent: each only ever
+  // writes its own field. Repeated edits of the SAME field race, so only
+  // the newest request for a field writes its result back.
+  const [editing, setEditing] = createSignal<{ id: number; field: EditableMemberField } | null>(null);
+  const isEditing = (id: number, field: EditableMemberField) =>
+    editing()?.id === id && editing()?.field === field;
+
+  // Merges into the row as it is NOW, not as it was when the edit began
+  function patchRow(id: number, patch: Partial<Row>) {
+    mutate((data) => data && { ...data, rows: data.rows.map((r) => (r.id === id ? { ...r, ...patch } : r)) });
+    for (const key of Object.keys(chunks).map(Number)) {
+      const index = chunks[key].findIndex((r) => r.id === id);
+      if (index !== -1) setChunks(key, index, (r) => ({ ...r, ...patch }));
+    }
+  }
+
+  // Saves in flight, by "id:field": the newest request's number, and the
+  // field's last value the server confirmed (what a failure rolls back to)
+  const pendingSaves = new Map<string, { seq: number; confirmed: Row[EditableMemberField] }>();
+  let saveSeq = 0;
+
+  async function saveField(row: Row, field: EditableMemberField, value: string) {
+    setEditing(null);
+    const key = `${row.id}:${field}`;
+    const seq = ++saveSeq;
+    // While an earlier save of this field is in flight, the row shows its
+    // unconfirmed value; keep the confirmed one from before it
+    const confirmed = pendingSaves.get(key)?.confirmed ?? row[field];
+    pendingSaves.set(key, { seq, confirmed });
+    const patch = { [field]: value } as Partial<Row>;
+    patchRow(row.id, patch);
+    try {
+      const saved = await source().update(row.id, patch);
+      const pending = pendingSaves.get(key);
+      if (pending?.seq !== seq) {
+        // Superseded: the newer edit owns the cell, but this value is now confirmed
+        if (pending) pending.confirmed = saved[field];
+        return;
+      }
+      pendingSaves.delete(key);
+      patchRow(row.id, { [field]: saved[field] } as Partial<Row>);
+    } catch (err) {
+      const pending = pendingSaves.get(key);
+      // Superseded: the newer edit's own result decides what the cell shows
+      if (pending?.seq !== seq) return;
+      pendingSaves.delete(key);
+      patchRow(row.id, { [field]: pending.confirmed } as Partial<Row>);
+      showToast({
+        title: `Couldn't save ${field} for ${row.name}`,
+        description: String(err),
+        tone: "error",
+      });
+    }
+  }
+
+  // One editable cell, wired to the editing state above
+  const Cell = (p: {
+    row: Row;
+    field: EditableMemberField;
+    type?: "text" | "email";
+    options?: readonly string[];
+    children: JSX.Element;
+  }) => (
+    <EditableCell
+      value={p.row[p.field]}
+      editing={isEditing(p.row.id, p.field)}
+      label={`${p.field} for ${p.row.name}`}
+      type={p.type}
+      options={p.options}
+      validate={(value) => validateMemberField(p.field, value)}
+      onEdit={() => setEditing({ id: p.row.id, field: p.field })}
+      onSave={(value) => saveField(p.row, p.field, value)}
+      onCancel={() => setEditing(null)}
+    >
+      {p.children}
+    </EditableCell>
+  );
+
+  // ── Rows ──
+  // Every row — data, padding, loading — is exactly the density's
+  // `rowHeight` px tall. Paged mode relies on it for a stable height, and
+  // scroll mode's virtual window computes positions from it without
+  // measuring the DOM.
+
+  // One data row — shared by the paged <For> and the virtual window.
+  // Cells come from the column definitions; editable ones go through Cell.
+  const DataRow = (p: { row: Row }) => (
+    <tr
+      onClick={(e) => handleRowClick(e, p.row)}
+      onDblClick={() => clearTimeout(clickTimer)}
+      style={{ height: `${density().rowHeight}px` }}
+      class={`border-t border-line hover:bg-surface-muted transition-colors cursor-pointer ${
+        selection.isSelected(p.row.id) ? "bg-accent-soft/50" : ""
+      }`}
+    >
+      <td class={density().cell}>
+        {/* onClick (not onChange) so we can read shiftKey for ranges */}
+        <input
+          type="checkbox"
+          checked={selection.isSelected(p.row.id)}
+          onClick={(e) => selection.toggle(p.row, pageRows(), e.shiftKey)}
+          aria-label={`Select ${p.row.name}`}
+          class="cursor-pointer accent-accent"
+        />
+      </td>
+      <For each={visibleColumns()}>
+        {(column) => (
+          <td class={`${density().cell} pr-4 truncate ${column.align === "right" ? "text-right" : ""}`}>
+            <Show when={column.edit} fallback={column.cell(p.row)}>
+              {(edit) => (
+                <Cell row={p.row} field={edit().field} type={edit().type} options={edit().options}>
+                  {column.cell(p.row)}
+                </Cell>
+              )}
+            </Show>
+          </td>
+        )}
+      </For>
+    </tr>
+  );
+
+  // Stand-in for a row whose chunk is still loading
+  const LoadingRow = () => (
+    <tr class="border-t border-line" style={{ height: `${density().rowHeight}px` }}>
+      <td colSpan={colSpan()} class={density().cell}>
+        <div class="animate-pulse h-4 w-2/3 bg-surface-muted rounded" />
+      </td>
+    </tr>
+  );
+
+  const EmptyRow = () => (
+    <tr class="border-t border-line" style={{ height: `${density().rowHeight}px` }}>
+      <td colSpan={colSpan()} class={`${density().cell} text-center text-fg-subtle`}>
+        No members match these filters
+      </td>
+    </tr>
+  );
+
+  // ── Column headers ──
+  // Each header sorts (if the column has a sortKey), can be dragged onto
+  // another header to reorder, and has a resize handle on its right
+  // edge. Pointer capture keeps the resize going even when the pointer
+  // leaves the handle; the width is only persisted on release.
+  const [draggedColumn, setDraggedColumn] = createSignal<string | null>(null);
+  const [dropTarget, setDropTarget] = createSignal<string | null>(null);
+  let resizing = false;
+
+  const ColumnHeader = (p: { column: ColumnDef<Row, EditableMemberField> }) => {
+    const direction = () => (p.column.sortKey && sort()?.key === p.column.sortKey ? sort()!.direction : null);
+    const ariaSort = () =>
+      direction() === "asc" ? "ascending" : direction() === "desc" ? "descending" : "none";
+
+    function startResize(e: PointerEvent) {
+      e.preventDefault();
+      e.stopPropagation();
+      const handle = e.currentTarget as HTMLElement;
+      const startX = e.clientX;
+      const startWidth = layout.width(p.column.id);
+      resizing = true;
+      handle.setPointerCapture(e.pointerId);
+
+      const onMove = (move: PointerEvent) => layout.resize(p.column.id, startWidth + move.clientX - startX, false);
+      const onUp = (up: PointerEvent) => {
+        layout.resize(p.column.id, startWidth + up.clientX - startX, true);
+        resizing = false;
+        handle.removeEventListener("pointermove", onMove);
+        handle.removeEventListener("pointerup", onUp);
+      };
+      handle.addEventListener("pointermove", onMove);
+      handle.addEventListener("pointerup", onUp);
+    }
+
+    return (
+      <th
+        draggable={true}
+        onDragStart={(e) => {
+          if (resizing) return e.preventDefault();
+          setDraggedColumn(p.column.id);
+          e.dataTransfer?.setData("text/plain", p.column.id); // Firefox won't drag without data
+          if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(e) => {
+          if (!draggedColumn()) return;
+          e.preventDefault();
+          setDropTarget(p.column.id);
+        }}
+        onDragLeave={() => setDropTarget((target) => (target === p.column.id ? null : target))}
+        onDrop={(e) => {
+          e.preventDefault();
+          const dragged = draggedColumn();
+          if (dragged) layout.move(dragged, p.column.id);
+        }}
+        onDragEnd={() => {
+          setDraggedColumn(null);
+          setDropTarget(null);
+        }}
+        aria-sort={p.column.sortKey ? ariaSort() : undefined}
+        class={`relative pb-3 pr-4 font-medium select-none cursor-grab ${
+          p.column.align === "right" ? "text-right" : ""
+        } ${draggedColumn() === p.column.id ? "opacity-40" : ""} ${
+          dropTarget() === p.column.id && draggedColumn() !== p.column.id ? "bg-accent-soft" : ""
+        }`}
+      >
+        <Show when={p.column.sortKey} fallback={<span class="uppercase tracking-wider">{p.column.header}</span>}>
+          {(key) => (
+            <button
+              type="button"
+              onClick={() => handleSort(key())}
+              class={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-fg cursor-pointer ${
+                direction() ? "text-fg" : ""
+              }`}
+            >
+              {p.column.header}
+              <span aria-hidden class={direction() ? "" : "opacity-30"}>
+                {direction() === "desc" ? "↓" : direction() === "asc" ? "↑" : "↕"}
+              </span>
+            </button>
+          )}
+        </Show>
+        <div
+          role="separator"
+          aria-orientation="vertical"
+          aria-label={`Resize ${p.column.header} column`}
+          onPointerDown={startResize}
+          class="absolute top-0 right-0 h-full w-2 cursor-col-resize hover:bg-accent/30"
+        />
+      </th>
+    );
+  };
+
+  // ── Detail drawer ──
+  // A row click opens the drawer, but a double-click means "edit", and
+  // every double-click starts with a click. So the open waits briefly
+  // and a double-click cancels it. Clicks on controls never open it.
+  const CLICK_DELAY_MS = 250;
+  const [openMemberId, setOpenMemberId] = createSignal<number | null>(null);
+  let clickTimer: ReturnType<typeof setTimeout> | undefined;
+  onCleanup(() => clearTimeout(clickTimer));
+
+  function handleRowClick(e: MouseEvent, row: Row) {
+    if ((e.target as HTMLElement).closest("input, select, button, a")) return;
+    if (editing()) return;
+    clearTimeout(clickTimer);
+    clickTimer = setTimeout(() => setOpenMemberId(row.id), CLICK_DELAY_MS);
+  }
+
+  // ── Export ──
+  // "All pages" walks the source page by page with the current sort and
+  // filters, so it exports what the table would show, not the raw API.
+  const [exporting, setExporting] = createSignal(false);
+  const [exportError, setExportError] = createSignal<string | null>(null);
+
+  async function handleExport(scope: ExportScope, format: ExportFormat, bom: boolean) {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const rows =
+        scope === "view" ? pageRows()
+        : scope === "selected" ? selection.rows()
+        : await fetchAllRows(source(), { sort: sort(), filter: toFilter(filters()) });
+      exportRecords(rows.map(toExportRecord), {
+        filename: scope === "all" ? "members" : `members-${scope}`,
+        format,
+        columns: memberExportColumns,
+        bom,
+      });
+    } catch (err) {
+      setExportError(`Export failed: ${String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  }
+
   return (
-    <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
+    <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
       <div class="flex items-center justify-between mb-4">
         <h3 class="text-base font-semibold">Team Members</h3>
         <Show when={hasLoaded()}>
-          <p class="text-xs text-gray-400">{total()} total members</p>
+          <div class="flex items-center gap-3">
+            <p class="text-xs text-fg-subtle">
+              {total()} {hasFilters() ? "matching" : "total"} members
+            </p>
+            <div role="group" aria-label="Table view" class="flex rounded-lg border border-line-strong overflow-hidden">
+              <For each={[["paged", "Pages"], ["scroll", "Scroll"]] as const}>
+                {([mode, label]) => (
+                  <button
+                    type="button"
+                    aria-pressed={view() === mode}
+                    onClick={() => changeView(mode)}
+                    class={`px-2.5 py-1 text-xs font-medium cursor-pointer ${
+                      view() === mode ? "bg-accent text-on-accent" : "text-fg-muted hover:bg-surface-muted"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                )}
+              </For>
+            </div>
+            <ColumnChooser layout={layout} />
+            <ExportMenu selectedCount={selection.count()} busy={exporting()} onExport={handleExport} />
+          </div>
         </Show>
       </div>
 
+      <Show when={exportError()}>
+        <p class="text-xs text-red-600 mb-3">{exportError()}</p>
+      </Show>
+
+      {/* Search + facets */}
+      <div class="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={searchInput()}
+          onInput={(e) => setSearchInput(e.currentTarget.value)}
+          placeholder="Search name or email…"
+          aria-label="Search team members"
+          class="text-sm border border-line-strong rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-accent flex-1 min-w-40"
+        />
+        <select
+          value={filters().status ?? ""}
+          onChange={(e) =>
+            updateFilters({ status: (e.currentTarget.value || null) as MemberFilters["status"] })
+          }
+          aria-label="Filter by status"
+          class="text-sm border border-line-strong rounded-lg px-2 py-1.5 bg-surface cursor-pointer"
+        >
+          <option value="">All statuses</option>
+          <For each={memberStatuses}>{(status) => <option value={status}>{status}</option>}</For>
+        </select>
+        <select
+          value={filters().role ?? ""}
+          onChange={(e) => updateFilters({ role: e.currentTarget.value || null })}
+          aria-label="Filter by role"
+          class="text-sm border border-line-strong rounded-lg px-2 py-1.5 bg-surface cursor-pointer max-w-48"
+        >
+          <option value="">All roles</option>
+          <For each={roles() ?? []}>{(role) => <option value={role}>{role}</option>}</For>
+        </select>
+      </div>
+
+      {/* Active filters as removable chips */}
+      <Show when={hasFilters()}>
+        <div class="flex flex-wrap items-center gap-2 mt-3">
+          <Show when={filters().search}>
+            {(search) => <FilterChip label={`“${search()}”`} onRemove={clearSearch} />}
+          </Show>
+          <Show when={filters().status}>
+            {(status) => <FilterChip label={`Status: ${status()}`} onRemove={() => updateFilters({ status: null })} />}
+          </Show>
+          <Show when={filters().role}>
+            {(role) => <FilterChip label={`Role: ${role()}`} onRemove={() => updateFilters({ role: null })} />}
+          </Show>
+          <button
+            type="button"
+            onClick={clearAll}
+            class="text-xs text-fg-muted hover:text-fg underline cursor-pointer"
+          >
+            Clear all
+          </button>
+        </div>
+      </Show>
+
       <Separator class="kb-separator" />
 
       {/* Error state */}
@@ -226,84 +853,139 @@ export default function DataTable() {
 
       {/* Initial loading: skeleton rows (only before first data arrives) */}
       <Show when={!hasLoaded() && !users.error}>
-        <SkeletonRows />
+        <SkeletonRows count={view() === "scroll" ? DEFAULT_PAGE_SIZE : pageSize()} />
       </Show>
 
       {/* Table: rendered once data arrives, never removed after that */}
       <Show when={hasLoaded()}>
-        <div class={`overflow-x-auto transition-opacity duration-200 ${
-          isFetching() ? "opacity-40 pointer-events-none" : "opacity-100"
-        }`}>
-          <table class="w-full text-sm">
-            <thead>
-              <tr class="text-left text-gray-500 text-xs uppercase tracking-wider">
-                <th class="pb-3 font-medium">Name</th>
-                <th class="pb-3 font-medium">Role</th>
-                <th class="pb-3 font-medium">Status</th>
-                <th class="pb-3 font-medium text-right">Revenue</th>
+        {/* Bulk actions — sticky so they stay reachable while scrolling */}
+        <Show when={selection.count() > 0}>
+          <BulkActionBar selection={selection} registry={actions()} source={source()} refetch={refetch} />
+        </Show>
+
+        {/* Whole page selected → offer to extend the selection across pages */}
+        <Show when={pageFullySelected() && selection.count() < total()}>
+          <p class="text-xs text-fg-muted text-center mt-2">
+            All {pageSelectedCount()} on this page are selected.{" "}
+            <button
+              type="button"
+              disabled={selectingAll()}
+              onClick={selectAllMatching}
+              class="text-accent font-medium hover:underline disabled:opacity-50 cursor-pointer"
+            >
+              {selectingAll() ? "Selecting…" : `Select all ${total()}${hasFilters() ? " matching" : ""} members`}
+            </button>
+          </p>
+        </Show>
+
+        {/* In scroll mode the wrapper becomes a fixed-height scroll
+            viewport; its scrollTop drives the virtual window */}
+        <div
+          ref={scroller}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          style={view() === "scroll" ? { height: `${SCROLL_VIEWPORT}px` } : undefined}
+          class={`overflow-x-auto transition-opacity duration-200 ${
+            view() === "scroll" ? "overflow-y-auto" : ""
+          } ${isFetching() ? "opacity-40 pointer-events-none" : "opacity-100"}`}
+        >
+          {/* table-fixed + <colgroup>: widths come from the layout, not content */}
+          <table class="table-fixed text-sm" style={{ width: `${tableWidth()}px`, "min-width": "100%" }}>
+            <colgroup>
+              <col style={{ width: `${CHECKBOX_COLUMN_WIDTH}px` }} />
+              <For each={visibleColumns()}>{(column) => <col style={{ width: `${layout.width(column.id)}px` }} />}</For>
+            </colgroup>
+            <thead class={view() === "scroll" ? "sticky top-0 z-10 bg-surface" : ""}>
+              <tr class="text-left text-fg-muted text-xs uppercase tracking-wider">
+                <th class="pb-3">
+                  <PageCheckbox
+                    checked={pageFullySelected()}
+                    indeterminate={pageSelectedCount() > 0 && !pageFullySelected()}
+                    onChange={() => selection.togglePage(pageRows())}
+                  />
+                </th>
+                <For each={visibleColumns()}>{(column) => <ColumnHeader column={column} />}</For>
               </tr>
             </thead>
-            <tbody>
-              {/* Data rows */}
-              <For each={displayRows()}>
-                {(row) => (
-                  <tr class="border-t border-gray-100 hover:bg-gray-50 transition-colors">
-                    <td class="py-3">
-                      <div class="font-medium">{row.name}</div>
-                      <div class="text-xs text-gray-400">{row.email}</div>
-                    </td>
-                    <td class="py-3">{row.role}</td>
-                    <td class="py-3">
-                      <span
-                        class={`text-xs px-2 py-0.5 rounded-full font-medium ${statusColor[row.status]}`}
-                      >
-                        {row.status}
-                      </span>
-                    </td>
-                    <td class="py-3 text-right font-medium">{row.revenue}</td>
-                  </tr>
-                )}
-              </For>
-              {/* Invisible padding rows — identical DOM structure ensures
-                  the browser computes the same row height. This keeps the
-                  table height stable on the last page (fewer rows). */}
-              <For each={Array.from({ length: Math.max(0, PAGE_SIZE - displayRows().length) })}>
-                {() => (
-                  <tr class="border-t border-gray-100">
-                    <td class="py-3">
-                      <div class="font-medium invisible">Placeholder</div>
-                      <div class="text-xs invisible">placeholder@email.com</div>
-                    </td>
-                    <td class="py-3"><span class="invisible">Placeholder</span></td>
-                    <td class="py-3">
-                      <span class="text-xs px-2 py-0.5 rounded-full font-medium invisible">Active</span>
-                    </td>
-                    <td class="py-3 text-right"><span class="font-medium invisible">$0</span></td>
-                  </tr>
+            <Show
+              when={view() === "scroll" && total() > 0}
+              fallback={
+                <tbody>
+                  <Show when={displayRows().length === 0}>
+                    <EmptyRow />
+                  </Show>
+                  {/* Data rows */}
+                  <For each={displayRows()}>{(row) => <DataRow row={row} />}</For>
+                  {/* Invisible padding rows — every row has the same fixed
+                      height, so padding to a full page keeps the table height
+                      stable on the last page (fewer rows) and when the
+                      empty-state row stands in for all of them.
+                      Paged mode only: scroll mode has a fixed-height viewport. */}
+                  <Show when={view() === "paged"}>
+                    <For each={Array.from({ length: Math.max(0, pageSize() - Math.max(1, displayRows().length)) })}>
+                      {() => (
+                        <tr aria-hidden class="border-t border-line" style={{ height: `${density().rowHeight}px` }}>
+                          <td colSpan={colSpan()} />
+                        </tr>
+                      )}
+                    </For>
+                  </Show>
+                </tbody>
+              }
+            >
+              <VirtualTableBody
+                count={total()}
+                rowHeight={density().rowHeight}
+                scrollTop={scrollTop()}
+                viewportHeight={SCROLL_VIEWPORT}
+                colSpan={colSpan()}
+                onRangeChange={loadRange}
+                renderRow={(index) => (
+                  <Show when={rowAt(index)} keyed fallback={<LoadingRow />}>
+                    {(row) => <DataRow row={row} />}
+                  </Show>
                 )}
-              </For>
-            </tbody>
+              />
+            </Show>
           </table>
         </div>
 
-        {/* Pagination — always visible once data loads */}
-        <Show when={totalPages() > 1}>
-          <div class="flex items-center justify-between pt-4 border-t border-gray-100 mt-4">
-            <p class="text-xs text-gray-400">
-              Page {page() + 1} of {totalPages()} · {total()} members
-            </p>
+        {/* Scroll mode footer: how much of the result is in memory */}
+        <Show when={view() === "scroll" && total() > 0}>
+          <p class="text-xs text-fg-subtle pt-4 border-t border-line mt-4">
+            {Math.min(loadedRows().length, total())} of {total()} members loaded
+          </p>
+        </Show>
+
+        {/* Pagination — shown whenever a smaller page size would split the results */}
+        <Show when={view() === "paged" && total() > PAGE_SIZES[0]}>
+          <div class="flex items-center justify-between pt-4 border-t border-line mt-4">
+            <div class="flex items-center gap-3">
+              <p class="text-xs text-fg-subtle">
+                Page {page() + 1} of {Math.max(1, totalPages())} · {total()} members
+              </p>
+              <label class="flex items-center gap-1.5 text-xs text-fg-subtle">
+                Rows
+                <select
+                  value={pageSize()}
+                  onChange={(e) => changePageSize(Number(e.currentTarget.value))}
+                  class="text-xs border border-line-strong rounded-lg px-1.5 py-0.5 bg-surface cursor-pointer"
+                >
+                  <For each={PAGE_SIZES}>{(size) => <option value={size}>{size}</option>}</For>
+                </select>
+              </label>
+            </div>
             <div class="flex gap-2">
               <button
                 disabled={page() === 0 || isFetching()}
-                onClick={() => setPage((p) => p - 1)}
-                class="px-3 py-1 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer"
+                onClick={() => goToPage(page() - 1)}
+                class="px-3 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer"
               >
                 ← Prev
               </button>
               <button
                 disabled={page() >= totalPages() - 1 || isFetching()}
-                onClick={() => setPage((p) => p + 1)}
-                class="px-3 py-1 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer"
+                onClick={() => goToPage(page() + 1)}
+                class="px-3 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer"
               >
                 Next →
               </button>
@@ -311,6 +993,10 @@ export default function DataTable() {
           </div>
         </Show>
       </Show>
+
+      <Show when={openMemberId()}>
+        {(id) => <MemberDrawer id={id()} onClose={() => setOpenMemberId(null)} />}
+      </Show>
     </div>
   );
 }
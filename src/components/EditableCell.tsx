@@ -0,0 +1,122 @@
+import { For, Show, createSignal, onMount, type JSX } from "solid-js";
+
+interface EditableCellProps {
+  value: string;
+  editing: boolean;
+  label: string;
+  /** Renders a <select> instead of a text input */
+  options?: readonly string[];
+  type?: "text" | "email";
+  validate: (value: string) => string | null;
+  onEdit: () => void;
+  onSave: (value: string) => void;
+  onCancel: () => void;
+  children: JSX.Element;
+}
+
+/**
+ * Double-click to edit. Enter or blur saves, Escape cancels.
+ * An invalid value never reaches `onSave`: the error shows inline
+ * and the editor stays open until it's fixed or cancelled.
+ */
+export default function EditableCell(props: EditableCellProps) {
+  return (
+    <Show
+      when={props.editing}
+      fallback={
+        <div onDblClick={props.onEdit} title="Double-click to edit" class="cursor-text">
+          {props.children}
+        </div>
+      }
+    >
+      <Editor {...props} />
+    </Show>
+  );
+}
+
+// Separate component so the draft signal is created fresh each time
+// editing starts (and thrown away when it ends)
+function Editor(props: EditableCellProps) {
+  const [draft, setDraft] = createSignal(props.value);
+  const [error, setError] = createSignal<string | null>(null);
+  let field!: HTMLInputElement | HTMLSelectElement;
+  // Enter/Escape close the editor, which can also fire blur — only
+  // the first of those may save or cancel
+  let closed = false;
+
+  onMount(() => field.focus());
+
+  function close(action: () => void) {
+    if (closed) return;
+    closed = true;
+    action();
+  }
+
+  function commit() {
+    const value = props.options ? draft() : draft().trim();
+    if (value === props.value) return close(props.onCancel);
+    const message = props.validate(value);
+    setError(message);
+    if (!message) close(() => props.onSave(value));
+  }
+
+  function onKeyDown(e: KeyboardEvent) {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      close(props.onCancel);
+    }
+  }
+
+  const fieldClass = () =>
+    `text-sm border rounded-md px-2 py-0.5 w-full focus:outline-none focus:ring-2 ${
+      error() ? "border-red-400 focus:ring-red-400" : "border-line-strong focus:ring-accent"
+    }`;
+
+  return (
+    <div>
+      <Show
+        when={props.options}
+        fallback={
+          <input
+            ref={(el) => (field = el)}
+            type={props.type ?? "text"}
+            value={draft()}
+            onInput={(e) => {
+              setDraft(e.currentTarget.value);
+              // Once an error is showing, re-check on every keystroke
+              if (error()) setError(props.validate(e.currentTarget.value.trim()));
+            }}
+            onKeyDown={onKeyDown}
+            onBlur={commit}
+            aria-label={props.label}
+            aria-invalid={error() !== null}
+            class={fieldClass()}
+          />
+        }
+      >
+        {(options) => (
+          <select
+            ref={(el) => (field = el)}
+            value={draft()}
+            onChange={(e) => {
+              setDraft(e.currentTarget.value);
+              commit();
+            }}
+            onKeyDown={onKeyDown}
+            onBlur={commit}
+            aria-label={props.label}
+            class={fieldClass()}
+          >
+            <For each={options()}>{(option) => <option value={option}>{option}</option>}</For>
+          </select>
+        )}
+      </Show>
+      <Show when={error()}>
+        <p class="text-xs text-red-600 mt-0.5">{error()}</p>
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { createSignal } from "solid-js";
+import { DropdownMenu } from "@kobalte/core/dropdown-menu";
+import type { ExportFormat } from "~/data/export";
+
+export type ExportScope = "view" | "selected" | "all";
+
+interface ExportMenuProps {
+  selectedCount: number;
+  busy: boolean;
+  onExport: (scope: ExportScope, format: ExportFormat, bom: boolean) => void;
+}
+
+/**
+ * Export dropdown: pick a format (and the Excel BOM for CSV), then
+ * pick which rows to export. Rendered without a Portal so it stays
+ * inside the themed layout.
+ */
+export default function ExportMenu(props: ExportMenuProps) {
+  const [format, setFormat] = createSignal<ExportFormat>("csv");
+  const [bom, setBom] = createSignal(true);
+
+  const run = (scope: ExportScope) => props.onExport(scope, format(), bom());
+
+  return (
+    <DropdownMenu>
+      <DropdownMenu.Trigger
+        disabled={props.busy}
+        class="px-3 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted disabled:opacity-30 disabled:cursor-not-allowed cursor-pointer"
+      >
+        {props.busy ? "Exporting…" : "Export ▾"}
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content class="kb-menu-content">
+        <DropdownMenu.Group>
+          <DropdownMenu.GroupLabel class="kb-menu-label">Format</DropdownMenu.GroupLabel>
+          <DropdownMenu.RadioGroup value={format()} onChange={(v) => setFormat(v as ExportFormat)}>
+            <DropdownMenu.RadioItem value="csv" closeOnSelect={false} class="kb-menu-item">
+              <DropdownMenu.ItemIndicator class="kb-menu-indicator">●</DropdownMenu.ItemIndicator>
+              CSV
+            </DropdownMenu.RadioItem>
+            <DropdownMenu.RadioItem value="json" closeOnSelect={false} class="kb-menu-item">
+              <DropdownMenu.ItemIndicator class="kb-menu-indicator">●</DropdownMenu.ItemIndicator>
+              JSON
+            </DropdownMenu.RadioItem>
+          </DropdownMenu.RadioGroup>
+          <DropdownMenu.CheckboxItem
+            checked={bom()}
+            onChange={setBom}
+            disabled={format() !== "csv"}
+            closeOnSelect={false}
+            class="kb-menu-item"
+          >
+            <DropdownMenu.ItemIndicator class="kb-menu-indicator">✓</DropdownMenu.ItemIndicator>
+            UTF-8 BOM (Excel)
+          </DropdownMenu.CheckboxItem>
+        </DropdownMenu.Group>
+
+        <DropdownMenu.Separator class="kb-separator !my-1" />
+
+        <DropdownMenu.Group>
+          <DropdownMenu.GroupLabel class="kb-menu-label">Rows</DropdownMenu.GroupLabel>
+          <DropdownMenu.Item class="kb-menu-item" onSelect={() => run("view")}>
+            Current view
+          </DropdownMenu.Item>
+          <DropdownMenu.Item
+            class="kb-menu-item"
+            disabled={props.selectedCount === 0}
+            onSelect={() => run("selected")}
+          >
+            Selected rows ({props.selectedCount})
+          </DropdownMenu.Item>
+          <DropdownMenu.Item class="kb-menu-item" onSelect={() => run("all")}>
+            All pages
+          </DropdownMenu.Item>
+        </DropdownMenu.Group>
+      </DropdownMenu.Content>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,12 @@
 import { Tooltip } from "@kobalte/core/tooltip";
-import { Show } from "solid-js";
+import { Popover } from "@kobalte/core/popover";
+import { Show, createSignal } from "solid-js";
 import { useSettings } from "~/stores/settings";
+import { useFormat } from "~/stores/locale";
+import { useNotifications } from "~/stores/notifications";
+import { summarizeNotifications } from "~/stores/notificationPrefs";
+import Avatar from "./Avatar";
+import NotificationPanel from "./NotificationPanel";
 
 export default function Header() {
   // ── Reading from the store ──
@@ -11,54 +17,82 @@ export default function Header() {
   // this Header that read notification-related properties will update.
   const [settings] = useSettings();
 
-  const now = new Date().toLocaleDateString("en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
+  const format = useFormat();
+  const notifications = useNotifications();
+
+  // The bell's hover text: what the notification settings add up to.
+  // Re-read on each hover or focus, so "quiet (now)" is current
+  const [summaryAt, setSummaryAt] = createSignal(Date.now());
+  const notificationSummary = () =>
+    summarizeNotifications(settings.notifications, new Date(summaryAt()), format().timeZone);
+
+  // In the profile's locale AND time zone: near midnight, "today" in
+  // Tokyo isn't today in New York
+  const today = () =>
+    format().date(new Date(), {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
 
   return (
     <header
-      class={`h-16 flex items-center justify-between px-6 shrink-0 border-b transition-colors duration-300 ${
-        settings.appearance.darkMode
-          ? "bg-gray-900 border-gray-700"
-          : "bg-white border-gray-200"
-      }`}
+      class="h-16 flex items-center justify-between px-6 shrink-0 border-b bg-surface border-line-strong transition-colors duration-300"
     >
       <div>
-        <h2 class="text-sm text-gray-500">{now}</h2>
+        <h2 class="text-sm text-fg-muted">{today()}</h2>
       </div>
 
       <div class="flex items-center gap-4">
-        {/* Notification bell — reacts to store changes */}
-        <Tooltip openDelay={300}>
-          <Tooltip.Trigger class={`relative p-2 rounded-lg transition-colors cursor-pointer ${
-              settings.appearance.darkMode ? "hover:bg-gray-800" : "hover:bg-gray-100"
-            }`}>
+        {/* Notification bell — opens the panel; the badge counts unread */}
+        <Popover
+          open={notifications.panelOpen()}
+          onOpenChange={notifications.setPanelOpen}
+          placement="bottom-end"
+          gutter={8}
+        >
+          <Popover.Trigger
+            class="relative p-2 rounded-lg hover:bg-surface-muted transition-colors cursor-pointer"
+            aria-label={
+              notifications.unreadCount() > 0
+                ? `Notifications, ${notifications.unreadCount()} unread`
+                : "Notifications"
+            }
+            title={notificationSummary().join("\n")}
+            aria-description={notificationSummary().join(". ")}
+            onPointerEnter={() => setSummaryAt(Date.now())}
+            onFocus={() => setSummaryAt(Date.now())}
+          >
             <span class="text-xl">🔔</span>
-            {/* Red dot only shows when at least one notification channel is on */}
-            <Show when={settings.notifications.email || settings.notifications.push}>
-              <span class="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full" />
+            <Show when={notifications.unreadCount() > 0}>
+              <span class="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 bg-red-500 text-white text-[10px] font-bold leading-4 text-center rounded-full">
+                {notifications.unreadCount() > 9 ? "9+" : notifications.unreadCount()}
+              </span>
             </Show>
-          </Tooltip.Trigger>
-          <Tooltip.Portal>
-            <Tooltip.Content class="kb-tooltip-content">
-              Notifications: {settings.notifications.email ? "Email ✓" : "Email ✗"}{" "}
-              {settings.notifications.push ? "Push ✓" : "Push ✗"}
-            </Tooltip.Content>
-          </Tooltip.Portal>
-        </Tooltip>
+          </Popover.Trigger>
+          <Popover.Portal>
+            {/* Content mounts on open, so the summary's "quiet now" is checked each time */}
+            <Popover.Content class="kb-popover-content">
+              <NotificationPanel />
+            </Popover.Content>
+          </Popover.Portal>
+        </Popover>
 
         {/* Avatar — reads profile from the store */}
         <Tooltip openDelay={300}>
-          <Tooltip.Trigger class="w-9 h-9 rounded-full bg-indigo-600 text-white flex items-center justify-center text-sm font-bold cursor-pointer">
-            {/* Only this text node re-renders when profile.name changes */}
-            {settings.profile.name[0]}
+          <Tooltip.Trigger class="rounded-full cursor-pointer" aria-label={`Profile: ${settings.profile.name || "unnamed"}`}>
+            {/* Initials when there's no picture (or no name at all) */}
+            <Avatar name={settings.profile.name} src={settings.profile.avatar} />
           </Tooltip.Trigger>
           <Tooltip.Portal>
             <Tooltip.Content class="kb-tooltip-content">
-              {settings.profile.name} — {settings.profile.role}
+              {settings.profile.name || "No name set"}
+              {settings.profile.role && ` — ${settings.profile.role}`}
+              <Show when={settings.profile.email}>
+                <br />
+                <span class="opacity-70">{settings.profile.email}</span>
+              </Show>
             </Tooltip.Content>
           </Tooltip.Portal>
         </Tooltip>
@@ -1,7 +1,13 @@
 import { Suspense, type ParentProps } from "solid-js";
 import Sidebar from "./Sidebar";
 import Header from "./Header";
+import Toaster from "./Toaster";
 import { SettingsProvider, useSettings } from "~/stores/settings";
+import { DensityProvider, useDensity } from "~/stores/density";
+import { LocaleProvider } from "~/stores/locale";
+import { NotificationsProvider } from "~/stores/notifications";
+import { SystemHealthProvider } from "~/stores/systemHealth";
+import { createTheme } from "~/stores/theme";
 
 /**
  * Route-level Suspense with lazy()
@@ -46,54 +52,68 @@ function PageSkeleton() {
     <div class="space-y-6 animate-pulse">
       {/* Page title */}
       <div>
-        <div class="h-7 w-40 bg-gray-200 rounded" />
-        <div class="h-4 w-64 bg-gray-100 rounded mt-2" />
+        <div class="h-7 w-40 bg-surface-strong rounded" />
+        <div class="h-4 w-64 bg-surface-muted rounded mt-2" />
       </div>
       {/* Card row */}
       <div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         {[1, 2, 3, 4].map(() => (
-          <div class="bg-white rounded-xl border border-gray-100 p-5 h-28" />
+          <div class="bg-surface rounded-xl border border-line p-5 h-28" />
         ))}
       </div>
       {/* Content block */}
-      <div class="bg-white rounded-xl border border-gray-100 p-5 h-64" />
+      <div class="bg-surface rounded-xl border border-line p-5 h-64" />
     </div>
   );
 }
 
+// Inside the provider, so the page padding follows density too
+function Main(props: ParentProps) {
+  const density = useDensity();
+  return (
+    <main class={`flex-1 overflow-y-auto transition-all duration-300 ${density().page}`}>
+      {props.children}
+    </main>
+  );
+}
+
 function Shell(props: ParentProps) {
   const [settings] = useSettings();
 
-  // Dynamic class expressions
+  // The theme lives on <html data-theme>, not on this <div>: tokens
+  // must also reach portalled content (menus, tooltips, toasts), which
+  // Kobalte mounts outside this tree.
+  createTheme(() => settings.appearance.theme);
+
+  // Density and locale as Context
   // ────────────────────────────────────
-  // This function is called inside a JSX attribute, which compiles
-  // to an effect. Every store property read here (darkMode, compactView)
-  // creates a fine-grained subscription.
-  //
-  // When you toggle dark mode in Settings, Solid updates ONLY the
-  // `class` attribute on this <div> — nothing else re-renders.
+  // Spacing and formatting are read from the providers by whichever
+  // component needs them (table rows, cards, the header date) — no
+  // prop drilling. The providers' props are store reads, so switching
+  // density or locale in Settings re-runs only the expressions that
+  // read a token or format a value.
 
   return (
-    <div
-      class={`flex h-screen transition-colors duration-300 ${
-        settings.appearance.darkMode
-          ? "dark-mode bg-gray-950 text-gray-100"
-          : "bg-gray-50 text-gray-900"
-      }`}
-    >
+    <div class="flex h-screen bg-canvas text-fg transition-colors duration-300">
       <Sidebar />
-      <div class="flex flex-col flex-1 overflow-hidden">
-        <Header />
-        <main
-          class={`flex-1 overflow-y-auto transition-all duration-300 ${
-            settings.appearance.compactView ? "p-3" : "p-6"
-          }`}
-        >
-          <Suspense fallback={<PageSkeleton />}>
-            {props.children}
-          </Suspense>
-        </main>
-      </div>
+      <DensityProvider density={settings.appearance.density}>
+        <LocaleProvider locale={settings.profile.locale} timeZone={settings.profile.timeZone}>
+          <NotificationsProvider>
+            {/* Above the routes: health history and alerts outlive the Dashboard */}
+            <SystemHealthProvider>
+              <div class="flex flex-col flex-1 overflow-hidden">
+                <Header />
+                <Main>
+                  <Suspense fallback={<PageSkeleton />}>
+                    {props.children}
+                  </Suspense>
+                </Main>
+              </div>
+            </SystemHealthProvider>
+          </NotificationsProvider>
+        </LocaleProvider>
+      </DensityProvider>
+      <Toaster />
     </div>
   );
 }
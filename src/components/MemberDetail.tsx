@@ -0,0 +1,147 @@
+import { For, Match, Show, Switch, createResource } from "solid-js";
+import { Separator } from "@kobalte/core/separator";
+import { mapUser, memberRecordsSource, type DummyUserDetail } from "~/data/members";
+import StatusBadge from "./StatusBadge";
+
+// ── Detail view shared by the drawer and the /members/:id page ──
+// createResource keyed on the id: when the id changes (another row
+// clicked, or navigating between member pages) the record refetches.
+// A `get` that resolves `undefined` is a not-found, not an error.
+
+function Field(props: { label: string; value: string | number | undefined }) {
+  return (
+    <Show when={props.value !== undefined && props.value !== ""}>
+      <div class="flex justify-between gap-4 py-1.5 text-sm">
+        <dt class="text-fg-muted">{props.label}</dt>
+        <dd class="font-medium text-right">{props.value}</dd>
+      </div>
+    </Show>
+  );
+}
+
+function Section(props: { title: string; fields: [string, string | number | undefined][] }) {
+  return (
+    <section>
+      <h4 class="text-xs font-medium uppercase tracking-wider text-fg-subtle mt-4 mb-1">
+        {props.title}
+      </h4>
+      <dl>
+        <For each={props.fields}>{([label, value]) => <Field label={label} value={value} />}</For>
+      </dl>
+    </section>
+  );
+}
+
+function formatAddress(address: DummyUserDetail["address"]): string | undefined {
+  if (!address) return undefined;
+  return `${address.address}, ${address.city}, ${address.state} ${address.postalCode}, ${address.country}`;
+}
+
+function DetailSkeleton() {
+  return (
+    <div class="animate-pulse space-y-4">
+      <div class="flex items-center gap-3">
+        <div class="w-14 h-14 rounded-full bg-surface-strong" />
+        <div class="space-y-1.5">
+          <div class="h-4 w-40 bg-surface-strong rounded" />
+          <div class="h-3 w-52 bg-surface-muted rounded" />
+        </div>
+      </div>
+      <For each={[1, 2, 3, 4, 5, 6]}>{() => <div class="h-4 w-full bg-surface-muted rounded" />}</For>
+    </div>
+  );
+}
+
+export default function MemberDetail(props: { id: number }) {
+  const [member, { refetch }] = createResource(
+    () => props.id,
+    (id) => memberRecordsSource.get(id)
+  );
+
+  return (
+    <Switch>
+      <Match when={member.error}>
+        <div class="py-8 text-center text-red-500 text-sm">
+          <p class="font-medium">Failed to load member</p>
+          <p class="text-xs mt-1">{String(member.error)}</p>
+          <button
+            onClick={() => refetch()}
+            class="mt-3 px-3 py-1 bg-red-50 text-red-600 rounded-lg text-xs font-medium hover:bg-red-100 cursor-pointer"
+          >
+            Retry
+          </button>
+        </div>
+      </Match>
+      <Match when={member.loading}>
+        <DetailSkeleton />
+      </Match>
+      <Match when={member.state === "ready" && !member()}>
+        <div class="py-8 text-center text-sm">
+          <p class="font-medium">Member not found</p>
+          <p class="text-xs text-fg-subtle mt-1">No team member has id {props.id}.</p>
+        </div>
+      </Match>
+      <Match when={member()}>
+        {(user) => (
+          <div>
+            <div class="flex items-center gap-3">
+              <Show
+                when={user().image}
+                fallback={
+                  <div class="w-14 h-14 rounded-full bg-accent text-on-accent flex items-center justify-center text-lg font-bold">
+                    {user().firstName[0]}
+                    {user().lastName[0]}
+                  </div>
+                }
+              >
+                {(src) => <img src={src()} alt="" class="w-14 h-14 rounded-full bg-surface-muted" />}
+              </Show>
+              <div class="min-w-0">
+                <p class="text-lg font-semibold truncate">
+                  {user().firstName} {user().lastName}
+                </p>
+                <p class="text-sm text-fg-muted truncate">{user().email}</p>
+              </div>
+              <div class="ml-auto">
+                <StatusBadge status={mapUser(user()).status} />
+              </div>
+            </div>
+
+            <Separator class="kb-separator" />
+
+            <Section
+              title="Work"
+              fields={[
+                ["Job title", user().company.title],
+                ["Department", user().company.department],
+                ["Company", user().company.name],
+                ["System role", user().role],
+              ]}
+            />
+            <Section
+              title="Contact"
+              fields={[
+                ["Email", user().email],
+                ["Phone", user().phone],
+                ["Username", user().username],
+                ["Address", formatAddress(user().address)],
+              ]}
+            />
+            <Section
+              title="Personal"
+              fields={[
+                ["Age", user().age],
+                ["Gender", user().gender],
+                ["Birth date", user().birthDate],
+                ["University", user().university],
+                ["Blood group", user().bloodGroup],
+                ["Eye color", user().eyeColor],
+              ]}
+            />
+            <p class="text-xs text-fg-subtle mt-4">Member #{user().id}</p>
+          </div>
+        )}
+      </Match>
+    </Switch>
+  );
+}
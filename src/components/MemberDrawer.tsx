@@ -0,0 +1,85 @@
+import { onCleanup, onMount } from "solid-js";
+import { Portal } from "solid-js/web";
+import { A } from "@solidjs/router";
+import MemberDetail from "./MemberDetail";
+
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Slide-over panel with a member's full record. Same Portal approach
+ * as Workshop's PortalModal, plus what a dialog needs:
+ *   - focus moves into the panel on open and back to the row on close
+ *   - Tab / Shift+Tab wrap around inside the panel (focus trap)
+ *   - Escape and a backdrop click both close it
+ */
+export default function MemberDrawer(props: { id: number; onClose: () => void }) {
+  let panel!: HTMLDivElement;
+  const previouslyFocused = document.activeElement as HTMLElement | null;
+
+  function onKeyDown(e: KeyboardEvent) {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      props.onClose();
+      return;
+    }
+    if (e.key !== "Tab") return;
+
+    const focusable = [...panel.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    if (focusable.length === 0) return e.preventDefault();
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  onMount(() => {
+    panel.focus();
+    document.addEventListener("keydown", onKeyDown);
+  });
+
+  onCleanup(() => {
+    document.removeEventListener("keydown", onKeyDown);
+    previouslyFocused?.focus();
+  });
+
+  return (
+    <Portal mount={document.body}>
+      <div class="fixed inset-0 z-50 flex justify-end">
+        <div class="absolute inset-0 bg-black/40" onClick={props.onClose} />
+        <div
+          ref={panel}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Member details"
+          tabIndex={-1}
+          class="drawer-panel relative bg-surface w-full max-w-md h-full shadow-xl border-l border-line p-6 overflow-y-auto outline-none"
+        >
+          <div class="flex items-center justify-between mb-4">
+            <A
+              href={`/members/${props.id}`}
+              class="text-xs font-medium text-accent hover:underline"
+            >
+              Open full page →
+            </A>
+            <button
+              type="button"
+              onClick={props.onClose}
+              aria-label="Close"
+              class="w-8 h-8 rounded-lg hover:bg-surface-muted text-fg-muted cursor-pointer"
+            >
+              ×
+            </button>
+          </div>
+          <MemberDetail id={props.id} />
+        </div>
+      </div>
+    </Portal>
+  );
+}
@@ -0,0 +1,66 @@
+import { For, Show, createMemo, createSignal, onCleanup } from "solid-js";
+import Chart from "./Chart";
+import Segmented from "./Segmented";
+import { useFormat } from "~/stores/locale";
+import { summarizeReadings } from "~/stores/sampleBuffer";
+import { useSystemHealth, type HealthMetric } from "~/stores/systemHealth";
+
+type HistoryWindow = "5" | "15" | "30";
+
+const historyWindows: { value: HistoryWindow; label: string }[] = [
+  { value: "5", label: "5 min" },
+  { value: "15", label: "15 min" },
+  { value: "30", label: "30 min" },
+];
+
+/** One metric's recent readings: a mini chart and min/avg/max/p95 over the chosen window. */
+export default function MetricHistory(props: { metric: HealthMetric; id?: string }) {
+  const health = useSystemHealth();
+  const format = useFormat();
+  const [minutes, setMinutes] = createSignal<HistoryWindow>("15");
+
+  // The window's start moves with the clock, not only with new samples:
+  // while paused or reconnecting, old readings still age out
+  const [now, setNow] = createSignal(Date.now());
+  const timer = setInterval(() => setNow(Date.now()), 5000);
+  onCleanup(() => clearInterval(timer));
+
+  const readings = createMemo(() => health.history(props.metric.id, now() - Number(minutes()) * 60_000));
+  const stats = createMemo(() => summarizeReadings(readings()));
+  const show = (value: number) => props.metric.format(value, format());
+
+  return (
+    <div id={props.id} class="mt-2 space-y-3 rounded-lg border border-line p-3">
+      <div class="flex items-center justify-between gap-3">
+        <span class="text-xs text-fg-muted">Last {minutes()} minutes</span>
+        <Segmented value={minutes()} options={historyWindows} onChange={setMinutes} aria-label="History window" />
+      </div>
+
+      <Show
+        when={readings().length > 0}
+        fallback={<p class="py-6 text-center text-xs text-fg-subtle">No readings in this window yet</p>}
+      >
+        <Chart
+          label={`${props.metric.label}, last ${minutes()} minutes`}
+          labels={readings().map((r) => format().date(r.at, { timeStyle: "medium" }))}
+          series={[{ id: props.metric.id, name: props.metric.label, values: readings().map((r) => r.value), color: "var(--accent)" }]}
+          type="area"
+          format={show}
+          height={140}
+          legend={false}
+        />
+      </Show>
+
+      <dl class="grid grid-cols-4 gap-2 text-center">
+        <For each={["min", "avg", "max", "p95"] as const}>
+          {(key) => (
+            <div>
+              <dt class="text-[11px] uppercase tracking-wider text-fg-subtle">{key}</dt>
+              <dd class="text-sm font-medium tabular-nums">{stats() ? show(stats()![key]) : "—"}</dd>
+            </div>
+          )}
+        </For>
+      </dl>
+    </div>
+  );
+}
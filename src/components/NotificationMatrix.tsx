@@ -0,0 +1,59 @@
+import { For } from "solid-js";
+import {
+  notificationCategories,
+  notificationChannels,
+  type ChannelMatrix,
+  type NotificationCategory,
+  type NotificationChannel,
+} from "~/stores/notificationPrefs";
+
+/**
+ * Category × channel checkboxes. `disabled` greys out whole rows —
+ * the digest row while the digest is off.
+ */
+export default function NotificationMatrix(props: {
+  channels: ChannelMatrix;
+  onChange: (category: NotificationCategory, channel: NotificationChannel, on: boolean) => void;
+  disabled?: (category: NotificationCategory) => boolean;
+}) {
+  return (
+    <table class="w-full text-sm">
+      <thead>
+        <tr class="text-xs text-fg-subtle uppercase tracking-wider">
+          <th class="pb-2 text-left font-medium">Category</th>
+          <For each={notificationChannels}>
+            {(channel) => <th class="pb-2 w-20 text-center font-medium">{channel.label}</th>}
+          </For>
+        </tr>
+      </thead>
+      <tbody>
+        <For each={notificationCategories}>
+          {(category) => (
+            <tr
+              class={`border-t border-line ${props.disabled?.(category.value) ? "opacity-40" : ""}`}
+            >
+              <td class="py-2">
+                <p class="font-medium">{category.label}</p>
+                <p class="text-xs text-fg-subtle">{category.description}</p>
+              </td>
+              <For each={notificationChannels}>
+                {(channel) => (
+                  <td class="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={props.channels[category.value][channel.value]}
+                      disabled={props.disabled?.(category.value)}
+                      onChange={(e) => props.onChange(category.value, channel.value, e.currentTarget.checked)}
+                      aria-label={`${category.label} via ${channel.label}`}
+                      class="cursor-pointer accent-accent disabled:cursor-not-allowed"
+                    />
+                  </td>
+                )}
+              </For>
+            </tr>
+          )}
+        </For>
+      </tbody>
+    </table>
+  );
+}
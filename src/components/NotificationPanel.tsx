@@ -0,0 +1,139 @@
+import { For, Show, createSignal, onCleanup } from "solid-js";
+import { A } from "@solidjs/router";
+import { useSettings } from "~/stores/settings";
+import { useFormat } from "~/stores/locale";
+import { useNotifications, type AppNotification } from "~/stores/notifications";
+import { summarizeNotifications, type NotificationCategory } from "~/stores/notificationPrefs";
+
+const categoryIcon: Record<NotificationCategory, string> = {
+  deployments: "🚀",
+  pullRequests: "🔀",
+  systemAlerts: "⚠️",
+  digest: "📰",
+};
+
+// Relative times ("2 minutes ago") go stale; re-render them while open
+const CLOCK_TICK_MS = 30_000;
+
+function Item(props: { item: AppNotification; now: number }) {
+  const notifications = useNotifications();
+  const format = useFormat();
+
+  return (
+    <li
+      class={`group flex gap-3 px-4 py-3 border-t border-line first:border-t-0 ${
+        props.item.read ? "" : "bg-accent-soft/50"
+      }`}
+    >
+      <span class="text-lg leading-none mt-0.5" aria-hidden>
+        {categoryIcon[props.item.category]}
+      </span>
+      <button
+        type="button"
+        onClick={() => notifications.markRead(props.item.id)}
+        class="flex-1 min-w-0 text-left cursor-pointer"
+      >
+        <p class={`text-sm ${props.item.read ? "" : "font-semibold"}`}>
+          {props.item.title}
+          <Show when={props.item.urgent}>
+            <span class="ml-1.5 text-[10px] font-medium uppercase text-red-600">Urgent</span>
+          </Show>
+        </p>
+        <Show when={props.item.body}>
+          <p class="text-xs text-fg-muted truncate">{props.item.body}</p>
+        </Show>
+        <p class="text-[11px] text-fg-subtle mt-0.5">
+          <time datetime={new Date(props.item.at).toISOString()}>
+            {format().relative(props.item.at, props.now)}
+          </time>
+        </p>
+      </button>
+      <button
+        type="button"
+        onClick={() => notifications.dismiss(props.item.id)}
+        aria-label={`Dismiss “${props.item.title}”`}
+        class="self-start text-fg-subtle hover:text-fg opacity-0 group-hover:opacity-100 focus:opacity-100 cursor-pointer"
+      >
+        ✕
+      </button>
+    </li>
+  );
+}
+
+/**
+ * The list behind the bell: unread first, then earlier ones. Opening
+ * it doesn't mark anything read — clicking an item (or "Mark all
+ * read") does.
+ */
+export default function NotificationPanel() {
+  const [settings] = useSettings();
+  const format = useFormat();
+  const notifications = useNotifications();
+
+  const [now, setNow] = createSignal(Date.now());
+  const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+  onCleanup(() => clearInterval(timer));
+
+  const unread = () => notifications.inbox.filter((n) => !n.read);
+  const earlier = () => notifications.inbox.filter((n) => n.read);
+
+  return (
+    <div class="w-96 max-w-[calc(100vw-2rem)]">
+      <div class="flex items-center justify-between px-4 py-3 border-b border-line">
+        <h3 class="text-sm font-semibold">Notifications</h3>
+        <button
+          type="button"
+          disabled={notifications.unreadCount() === 0}
+          onClick={() => notifications.markAllRead()}
+          class="text-xs font-medium text-accent hover:underline disabled:opacity-40 disabled:no-underline disabled:cursor-not-allowed cursor-pointer"
+        >
+          Mark all read
+        </button>
+      </div>
+
+      {/* Push is on in settings, but the browser hasn't been asked yet */}
+      <Show when={notifications.pushEnabled() && notifications.permission() === "default"}>
+        <div class="flex items-center justify-between gap-3 px-4 py-2 text-xs bg-amber-50 text-amber-800">
+          Allow browser notifications for urgent alerts?
+          <button
+            type="button"
+            onClick={() => notifications.requestPushPermission()}
+            class="font-medium underline cursor-pointer"
+          >
+            Allow
+          </button>
+        </div>
+      </Show>
+
+      <div class="max-h-96 overflow-y-auto">
+        <Show
+          when={notifications.inbox.length > 0}
+          fallback={<p class="px-4 py-10 text-center text-sm text-fg-subtle">You're all caught up</p>}
+        >
+          <Show when={unread().length > 0}>
+            <ul aria-label="Unread">
+              <For each={unread()}>{(item) => <Item item={item} now={now()} />}</For>
+            </ul>
+          </Show>
+          <Show when={earlier().length > 0}>
+            <h4 class="px-4 pt-3 pb-1 text-[11px] font-medium uppercase tracking-wider text-fg-subtle border-t border-line">
+              Earlier
+            </h4>
+            <ul aria-label="Earlier">
+              <For each={earlier()}>{(item) => <Item item={item} now={now()} />}</For>
+            </ul>
+          </Show>
+        </Show>
+      </div>
+
+      <div class="px-4 py-2 border-t border-line text-[11px] text-fg-subtle">
+        <For each={summarizeNotifications(settings.notifications, new Date(now()), format().timeZone)}>
+          {(line) => <p>{line}</p>}
+        </For>
+        <A href="/settings" onClick={() => notifications.setPanelOpen(false)} class="text-accent hover:underline">
+          Notification settings
+        </A>
+      </div>
+    </div>
+  );
+}
@@ -1,44 +1,114 @@
 import { Progress } from "@kobalte/core/progress";
-import { For } from "solid-js";
+import { For, Match, Show, Switch, createSignal, onCleanup } from "solid-js";
+import { useDensity } from "~/stores/density";
+import { useFormat } from "~/stores/locale";
+import MetricHistory from "./MetricHistory";
+import { levelColor, useSystemHealth, type ConnectionStatus } from "~/stores/systemHealth";
 
-interface Metric {
-  label: string;
-  value: number;
-  max: number;
-  color: string;
-}
-
-const metrics: Metric[] = [
-  { label: "CPU Usage", value: 67, max: 100, color: "bg-indigo-500" },
-  { label: "Memory", value: 4.2, max: 8, color: "bg-emerald-500" },
-  { label: "Disk I/O", value: 34, max: 100, color: "bg-amber-500" },
-  { label: "Network", value: 82, max: 100, color: "bg-sky-500" },
-];
+const statusStyle: Record<ConnectionStatus, { dot: string; label: string }> = {
+  live: { dot: "bg-emerald-500 animate-pulse", label: "Live" },
+  connecting: { dot: "bg-fg-subtle", label: "Connecting…" },
+  reconnecting: { dot: "bg-amber-500", label: "Reconnecting" },
+  paused: { dot: "bg-fg-subtle", label: "Paused" },
+};
 
 export default function ProgressMetrics() {
+  const density = useDensity();
+  const format = useFormat();
+  const health = useSystemHealth();
+  // One metric's history open at a time
+  const [expanded, setExpanded] = createSignal<string | null>(null);
+
+  // Drives the "retrying in 4s" countdown
+  const [now, setNow] = createSignal(Date.now());
+  const timer = setInterval(() => setNow(Date.now()), 1000);
+  onCleanup(() => clearInterval(timer));
+
+  const retryIn = () => {
+    const at = health.retryAt();
+    return at === null ? null : Math.max(0, Math.ceil((at - now()) / 1000));
+  };
+
   return (
-    <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
-      <h3 class="text-base font-semibold mb-4">System Health</h3>
-      <div class="space-y-5">
-        <For each={metrics}>
+    <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="text-base font-semibold">System Health</h3>
+        <span class="flex items-center gap-1.5 text-xs text-fg-muted" role="status">
+          <span class={`w-2 h-2 rounded-full ${statusStyle[health.status()].dot}`} />
+          {statusStyle[health.status()].label}
+          <Show when={health.status() === "reconnecting" && retryIn() !== null}>
+            <span>in {retryIn()}s ·</span>
+            <button
+              type="button"
+              onClick={() => health.reconnect()}
+              class="font-medium text-accent hover:underline cursor-pointer"
+            >
+              Retry now
+            </button>
+          </Show>
+        </span>
+      </div>
+      <div class={density().stack}>
+        <For each={health.metrics}>
           {(m) => {
-            const pct = () => Math.round((m.value / m.max) * 100);
+            const value = () => health.value(m.id);
+            const pct = () => Math.min(100, Math.round(((value() ?? 0) / m.max) * 100));
+            const level = () => health.level(m);
+            const color = () => {
+              const current = level();
+              return current === "ok" ? m.color : levelColor[current];
+            };
+            const valueLabel = () => {
+              const current = value();
+              if (current === undefined) return "No data";
+              const shown = m.format(current, format());
+              return m.showMax ? `${shown} / ${m.format(m.max, format())}` : shown;
+            };
+            const open = () => expanded() === m.id;
+            const historyId = `metric-history-${m.id}`;
             return (
-              <Progress value={pct()} minValue={0} maxValue={100} class="space-y-1.5">
-                <div class="flex justify-between text-sm">
-                  <Progress.Label class="font-medium text-gray-700">
-                    {m.label}
-                  </Progress.Label>
-                  <Progress.ValueLabel class="text-gray-500">
-                    {m.label === "Memory"
-                      ? `${m.value} / ${m.max} GB`
-                      : `${pct()}%`}
-                  </Progress.ValueLabel>
-                </div>
-                <Progress.Track class="progress-track">
-                  <Progress.Fill class={`progress-fill ${m.color}`} />
-                </Progress.Track>
-              </Progress>
+              // The whole row toggles the history; the chevron button is
+              // its keyboard and screen reader handle (its click bubbles here)
+              <div onClick={() => setExpanded(open() ? null : m.id)} class="cursor-pointer">
+                <Progress value={pct()} minValue={0} maxValue={100} getValueLabel={valueLabel} class="space-y-1.5">
+                  <div class="flex justify-between text-sm">
+                    <span class="flex items-center gap-1">
+                      <button
+                        type="button"
+                        aria-expanded={open()}
+                        aria-controls={historyId}
+                        aria-label={`${m.label} history`}
+                        class={`text-fg-subtle text-xs transition-transform cursor-pointer ${open() ? "rotate-90" : ""}`}
+                      >
+                        ▸
+                      </button>
+                      <Progress.Label class="font-medium text-fg">
+                        {m.label}
+                      </Progress.Label>
+                    </span>
+                    <span class="flex items-center gap-1.5">
+                      <Switch>
+                        <Match when={level() === "critical"}>
+                          <span class="text-[10px] font-medium uppercase text-red-600">Critical</span>
+                        </Match>
+                        <Match when={level() === "warning"}>
+                          <span class="text-[10px] font-medium uppercase text-amber-600">Warning</span>
+                        </Match>
+                      </Switch>
+                      <Progress.ValueLabel class="text-fg-muted tabular-nums" />
+                    </span>
+                  </div>
+                  <Progress.Track class="progress-track">
+                    <Progress.Fill class={`progress-fill ${color()}`} />
+                  </Progress.Track>
+                </Progress>
+                <Show when={open()}>
+                  {/* Clicks inside the chart (brush, window picker) mustn't collapse it */}
+                  <div onClick={(e) => e.stopPropagation()} class="cursor-default">
+                    <MetricHistory metric={m} id={historyId} />
+                  </div>
+                </Show>
+              </div>
             );
           }}
         </For>
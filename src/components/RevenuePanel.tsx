@@ -0,0 +1,81 @@
+import { Show, createSignal } from "solid-js";
+import Chart, { chartTypes, type ChartSeries, type ChartType } from "./Chart";
+import Segmented from "./Segmented";
+import { useDensity } from "~/stores/density";
+import { useFormat } from "~/stores/locale";
+import type { DashboardStats } from "~/stores/dashboardStats";
+
+interface RevenuePanelProps {
+  /** The same stats the cards show, so the chart follows the period selector */
+  stats: DashboardStats | null;
+  /** One per day of `stats.days` */
+  labels: string[];
+  loading: boolean;
+  error: unknown;
+  onRetry: () => void;
+}
+
+/** Daily revenue over the selected period, against the period before it. */
+export default function RevenuePanel(props: RevenuePanelProps) {
+  const density = useDensity();
+  const format = useFormat();
+  const [type, setType] = createSignal<ChartType>("area");
+
+  const series = (): ChartSeries[] => [
+    {
+      id: "revenue",
+      name: "Revenue",
+      values: props.stats?.days.map((row) => row.revenue) ?? [],
+      color: "var(--accent)",
+    },
+    {
+      id: "previous",
+      name: "Previous period",
+      values: props.stats?.previousDays.map((row) => row.revenue) ?? [],
+      color: "var(--fg-subtle)",
+      // An area behind an area hides it; compare against a line instead
+      type: type() === "area" ? "line" : undefined,
+      dashed: true,
+    },
+  ];
+
+  return (
+    <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
+      <div class="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 class="text-base font-semibold">Revenue over time</h3>
+        <Segmented value={type()} options={chartTypes} onChange={setType} aria-label="Chart type" />
+      </div>
+
+      <Show
+        when={!(props.error && !props.loading)}
+        fallback={
+          <div class="h-60 flex flex-col items-center justify-center gap-1 text-sm">
+            <p class="text-red-500 font-medium">Couldn't load revenue</p>
+            <button
+              type="button"
+              onClick={() => props.onRetry()}
+              class="text-xs font-medium text-accent hover:underline cursor-pointer"
+            >
+              Retry
+            </button>
+          </div>
+        }
+      >
+        <Show when={props.stats} fallback={<div class="h-60 rounded-lg bg-surface-muted animate-pulse" />}>
+          <div aria-busy={props.loading} class={`transition-opacity ${props.loading ? "opacity-60" : ""}`}>
+            <Chart
+              label="Daily revenue"
+              labels={props.labels}
+              series={series()}
+              type={type()}
+              format={(value) => format().currency(value)}
+              formatAxis={(value) =>
+                format().number(value, { style: "currency", currency: "USD", notation: "compact" })
+              }
+            />
+          </div>
+        </Show>
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { For } from "solid-js";
+import { ToggleGroup } from "@kobalte/core/toggle-group";
+
+/**
+ * One-of-N choice (theme, density, a dashboard period). Clicking the
+ * selected option would deselect it in a ToggleGroup — ignored, so one
+ * always stays chosen.
+ */
+export default function Segmented<T extends string>(props: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  "aria-label"?: string;
+}) {
+  return (
+    <ToggleGroup
+      value={props.value}
+      onChange={(value) => value && props.onChange(value as T)}
+      aria-label={props["aria-label"]}
+      class="flex rounded-lg border border-line-strong p-0.5 text-xs"
+    >
+      <For each={props.options}>
+        {(option) => (
+          <ToggleGroup.Item
+            value={option.value}
+            class="px-3 py-1 rounded-md text-fg-muted hover:text-fg data-[pressed]:bg-accent data-[pressed]:text-on-accent cursor-pointer transition-colors"
+          >
+            {option.label}
+          </ToggleGroup.Item>
+        )}
+      </For>
+    </ToggleGroup>
+  );
+}
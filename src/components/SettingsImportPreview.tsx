@@ -0,0 +1,108 @@
+import { For, Show } from "solid-js";
+import type { SettingsImport } from "~/stores/settingsTransfer";
+
+function formatValue(value: unknown): string {
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (value === "") return "(empty)";
+  return String(value);
+}
+
+/**
+ * What an imported settings file would change, before it's applied.
+ * Field errors block the import; unknown keys are only listed.
+ */
+export default function SettingsImportPreview(props: {
+  fileName: string;
+  result: SettingsImport;
+  onApply: () => void;
+  onCancel: () => void;
+}) {
+  const hasErrors = () => props.result.errors.length > 0;
+
+  return (
+    <div class="mt-4 rounded-lg border border-line-strong p-4 text-sm">
+      <p class="font-medium">Import from {props.fileName}</p>
+
+      <Show when={hasErrors()}>
+        <div class="mt-3">
+          <p class="text-red-600 font-medium">
+            {props.result.errors.length} invalid {props.result.errors.length === 1 ? "field" : "fields"} — fix
+            the file and import it again.
+          </p>
+          <ul class="mt-1 space-y-0.5">
+            <For each={props.result.errors}>
+              {(error) => (
+                <li class="text-xs">
+                  <code class="text-red-700">{error.path}</code>{" "}
+                  <span class="text-fg-muted">{error.message}</span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.result.dropped.length > 0}>
+        <p class="text-xs text-fg-muted mt-3">
+          Ignored unknown {props.result.dropped.length === 1 ? "key" : "keys"}:{" "}
+          <For each={props.result.dropped}>
+            {(path, i) => (
+              <>
+                <code>{path}</code>
+                {i() < props.result.dropped.length - 1 ? ", " : ""}
+              </>
+            )}
+          </For>
+        </p>
+      </Show>
+
+      <Show
+        when={props.result.changes.length > 0}
+        fallback={
+          <Show when={!hasErrors()}>
+            <p class="text-xs text-fg-muted mt-3">No changes — this file matches your current settings.</p>
+          </Show>
+        }
+      >
+        <table class="w-full text-xs mt-3">
+          <thead>
+            <tr class="text-left text-fg-subtle uppercase tracking-wider">
+              <th class="pb-1 font-medium">Setting</th>
+              <th class="pb-1 font-medium">Current</th>
+              <th class="pb-1 font-medium">Imported</th>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={props.result.changes}>
+              {(change) => (
+                <tr class="border-t border-line">
+                  <td class="py-1.5"><code>{change.path}</code></td>
+                  <td class="py-1.5 text-red-600 line-through">{formatValue(change.from)}</td>
+                  <td class="py-1.5 text-emerald-600 font-medium">{formatValue(change.to)}</td>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+      </Show>
+
+      <div class="flex gap-2 mt-4">
+        <button
+          type="button"
+          disabled={hasErrors() || props.result.changes.length === 0}
+          onClick={props.onApply}
+          class="px-3 py-1 text-xs font-medium rounded-lg bg-accent text-on-accent hover:bg-accent-hover disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+        >
+          Apply {props.result.changes.length} {props.result.changes.length === 1 ? "change" : "changes"}
+        </button>
+        <button
+          type="button"
+          onClick={props.onCancel}
+          class="px-3 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
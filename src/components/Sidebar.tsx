@@ -7,7 +7,7 @@ function NavLink(props: { href: string; label: string; icon: string }) {
       href={props.href}
       end={props.href === "/"}
       class="flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
-      activeClass="!bg-indigo-600 !text-white"
+      activeClass="!bg-accent !text-on-accent"
     >
       <span class="text-lg">{props.icon}</span>
       {props.label}
@@ -15,6 +15,7 @@ function NavLink(props: { href: string; label: string; icon: string }) {
   );
 }
 
+// The sidebar stays dark in both themes; only the active link takes the accent
 export default function Sidebar() {
   return (
     <aside class="w-64 bg-gray-900 text-white flex flex-col shrink-0">
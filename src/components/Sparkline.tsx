@@ -0,0 +1,304 @@
+import { Show, createEffect, createMemo, createSignal, on, onCleanup, type Accessor } from "solid-js";
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Sparkline — a tiny trend line, no chart library
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The SVG draws in a fixed 100 × 32 box and is stretched to fit
+ *  (preserveAspectRatio="none"). Strokes use
+ *  vector-effect="non-scaling-stroke" so they stay 1.5px however wide
+ *  the card is:
+ *
+ *    y = max  ┤        ╭╮
+ *             │   ╭─╮ ╭╯╰╮    ╭
+ *    y = 0    ┤┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈┈  ← zero line, only when the data crosses it
+ *             │╰╯     ╰─╯  ╰──╯
+ *    y = min  ┤
+ *             x = 0 … n-1, evenly spaced
+ *
+ *  The area under the line fills toward zero when zero is in range,
+ *  otherwise toward the bottom — a series that dips negative reads as
+ *  below the line, not as "a bit less filled".
+ *
+ *  Edge cases: no values → "No data"; one value → a single dot
+ *  (there's no line to draw through one point).
+ *
+ *  When the values change, the line MORPHS to the new shape instead
+ *  of jumping: the old series is resampled to the new length, then
+ *  tweened. Skipped under prefers-reduced-motion.
+ *
+ *  Hover (or focus + ←/→) moves a crosshair and shows the point's
+ *  value. Screen readers get a one-sentence summary instead.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+const WIDTH = 100;
+const HEIGHT = 32;
+// Keeps the line's peaks off the top and bottom edges
+const PAD = 3;
+const MORPH_MS = 400;
+
+/** `values` stretched or squeezed to `length` points, interpolating linearly */
+function resample(values: number[], length: number): number[] {
+  if (values.length === length) return values;
+  if (values.length === 1 || length === 1) return Array(length).fill(values[values.length - 1]);
+  return Array.from({ length }, (_, i) => {
+    const position = (i / (length - 1)) * (values.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, values.length - 1);
+    return values[lower] + (values[upper] - values[lower]) * (position - lower);
+  });
+}
+
+const reducedMotion = () =>
+  typeof window !== "undefined" && window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+/** Follows `target`, easing from the previous values over MORPH_MS */
+function createMorph(target: Accessor<number[]>): Accessor<number[]> {
+  const [shown, setShown] = createSignal(target());
+  let frame = 0;
+
+  createEffect(
+    on(
+      target,
+      (to) => {
+        cancelAnimationFrame(frame);
+        const previous = shown();
+        if (previous.length === 0 || to.length === 0 || reducedMotion()) {
+          setShown(to);
+          return;
+        }
+        const from = resample(previous, to.length);
+        const start = performance.now();
+        const step = (now: number) => {
+          const t = Math.min(1, (now - start) / MORPH_MS);
+          const eased = 1 - (1 - t) ** 3;
+          setShown(to.map((value, i) => from[i] + (value - from[i]) * eased));
+          if (t < 1) frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+      },
+      { defer: true }
+    )
+  );
+  onCleanup(() => cancelAnimationFrame(frame));
+
+  return shown;
+}
+
+/** "Revenue, 7 points: from $1,204 to $1,712, up 42%. Low $980 (Oct 13), high $1,712 (Oct 18)." */
+export function summarizeSeries(
+  name: string,
+  values: number[],
+  labels: string[] | undefined,
+  format: (value: number) => string
+): string {
+  if (values.length === 0) return `${name}: no data`;
+  const at = (i: number) => (labels?.[i] ? ` (${labels[i]})` : "");
+  if (values.length === 1) return `${name}: ${format(values[0])}${at(0)}`;
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const low = values.indexOf(Math.min(...values));
+  const high = values.indexOf(Math.max(...values));
+  const ratio = first === 0 ? null : (last - first) / Math.abs(first);
+  const direction =
+    last === first ? "unchanged" : `${last > first ? "up" : "down"}${ratio === null ? "" : ` ${Math.round(Math.abs(ratio) * 100)}%`}`;
+
+  return (
+    `${name}, ${values.length} points: from ${format(first)} to ${format(last)}, ${direction}. ` +
+    `Low ${format(values[low])}${at(low)}, high ${format(values[high])}${at(high)}.`
+  );
+}
+
+interface SparklineProps {
+  values: number[];
+  /** One per value, e.g. the day — shown in the readout and the summary */
+  labels?: string[];
+  format: (value: number) => string;
+  /** What the series is, for the accessible summary ("Revenue") */
+  name: string;
+  /** Sets the line color through `currentColor`, e.g. "text-emerald-600" */
+  class?: string;
+}
+
+export default function Sparkline(props: SparklineProps) {
+  const shown = createMorph(() => props.values);
+  const [active, setActive] = createSignal<number | null>(null);
+  let svg!: SVGSVGElement;
+
+  // ── Scales ──
+  // From the real values, not the tweened ones: the axis shouldn't
+  // wobble while the line morphs.
+  const domain = createMemo(() => {
+    const values = props.values;
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (min === max) {
+      // Flat series: center it rather than pinning it to an edge
+      const spread = Math.abs(min) * 0.1 || 1;
+      min -= spread;
+      max += spread;
+    }
+    return { min, max };
+  });
+
+  const x = (i: number, count: number) => (count <= 1 ? WIDTH / 2 : (i / (count - 1)) * WIDTH);
+  const y = (value: number) => {
+    const { min, max } = domain();
+    return PAD + ((max - value) / (max - min)) * (HEIGHT - PAD * 2);
+  };
+  const baseline = () => {
+    const { min, max } = domain();
+    return y(Math.min(Math.max(0, min), max));
+  };
+  const crossesZero = () => domain().min < 0 && domain().max > 0;
+
+  const points = () => {
+    const values = shown();
+    return values.map((value, i) => `${x(i, values.length).toFixed(2)},${y(value).toFixed(2)}`);
+  };
+  const linePath = () => `M${points().join("L")}`;
+  const areaPath = () => {
+    const values = shown();
+    const base = baseline().toFixed(2);
+    return `${linePath()}L${x(values.length - 1, values.length)},${base}L${x(0, values.length)},${base}Z`;
+  };
+
+  // ── Crosshair ──
+
+  function pointAt(clientX: number) {
+    const rect = svg.getBoundingClientRect();
+    const count = props.values.length;
+    if (count === 0 || rect.width === 0) return null;
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return Math.round(fraction * (count - 1));
+  }
+
+  function handleKeyDown(e: KeyboardEvent) {
+    const count = props.values.length;
+    if (count === 0) return;
+    const current = active() ?? count - 1;
+    const next =
+      e.key === "ArrowLeft" ? Math.max(current - 1, 0)
+      : e.key === "ArrowRight" ? Math.min(current + 1, count - 1)
+      : e.key === "Home" ? 0
+      : e.key === "End" ? count - 1
+      : null;
+    if (next === null) return;
+    e.preventDefault();
+    setActive(next);
+  }
+
+  // A refetch can shorten the series under the crosshair
+  const activeIndex = () => {
+    const index = active();
+    return index !== null && index < props.values.length ? index : null;
+  };
+  const activeLeft = () => x(activeIndex() ?? 0, props.values.length);
+
+  const summary = () => summarizeSeries(props.name, props.values, props.labels, props.format);
+
+  return (
+    <Show
+      when={props.values.length > 0}
+      fallback={
+        <div class="h-10 flex items-center justify-center rounded border border-dashed border-line text-[11px] text-fg-subtle">
+          No data
+        </div>
+      }
+    >
+      <div
+        tabindex="0"
+        aria-label={`${props.name} trend`}
+        role="group"
+        onKeyDown={handleKeyDown}
+        onBlur={() => setActive(null)}
+        class={`relative h-10 rounded focus-visible:outline-2 focus-visible:outline-accent ${props.class ?? ""}`}
+      >
+        <p class="sr-only">{summary()}</p>
+        <svg
+          ref={svg}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+          class="w-full h-full overflow-visible"
+          onPointerMove={(e) => setActive(pointAt(e.clientX))}
+          onPointerLeave={() => setActive(null)}
+        >
+          <Show when={crossesZero()}>
+            <line
+              x1="0"
+              x2={WIDTH}
+              y1={y(0)}
+              y2={y(0)}
+              stroke="currentColor"
+              stroke-opacity="0.35"
+              stroke-dasharray="2 2"
+              vector-effect="non-scaling-stroke"
+            />
+          </Show>
+          <Show
+            when={shown().length > 1}
+            fallback={
+              // A zero-length round-capped stroke: a dot that stays round when stretched
+              <path
+                d={`M${WIDTH / 2},${y(shown()[0] ?? 0)}h0`}
+                stroke="currentColor"
+                stroke-width="6"
+                stroke-linecap="round"
+                vector-effect="non-scaling-stroke"
+              />
+            }
+          >
+            <path d={areaPath()} fill="currentColor" fill-opacity="0.1" />
+            <path
+              d={linePath()}
+              fill="none"
+              stroke="currentColor"
+              stroke-width="1.5"
+              stroke-linejoin="round"
+              vector-effect="non-scaling-stroke"
+            />
+          </Show>
+          <Show when={activeIndex() !== null && props.values.length > 1}>
+            <line
+              x1={activeLeft()}
+              x2={activeLeft()}
+              y1="0"
+              y2={HEIGHT}
+              stroke="currentColor"
+              stroke-opacity="0.5"
+              vector-effect="non-scaling-stroke"
+            />
+            <path
+              d={`M${activeLeft()},${y(props.values[activeIndex()!])}h0`}
+              stroke="currentColor"
+              stroke-width="6"
+              stroke-linecap="round"
+              vector-effect="non-scaling-stroke"
+            />
+          </Show>
+        </svg>
+
+        <Show when={activeIndex() !== null}>
+          {/* Anchored left/right near the edges so it never hangs off the card */}
+          <div
+            aria-live="polite"
+            class="absolute bottom-full mb-1 px-1.5 py-0.5 rounded bg-fg text-surface text-[11px] font-medium whitespace-nowrap tabular-nums pointer-events-none"
+            style={{
+              left: `${activeLeft()}%`,
+              transform: `translateX(${activeLeft() < 25 ? "0" : activeLeft() > 75 ? "-100%" : "-50%"})`,
+            }}
+          >
+            {props.format(props.values[activeIndex()!])}
+            <Show when={props.labels?.[activeIndex()!]}>
+              <span class="opacity-70"> · {props.labels![activeIndex()!]}</span>
+            </Show>
+          </div>
+        </Show>
+      </div>
+    </Show>
+  );
+}
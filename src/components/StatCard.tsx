@@ -1,34 +1,148 @@
+import { Show } from "solid-js";
 import { Tooltip } from "@kobalte/core/tooltip";
+import Sparkline from "./Sparkline";
+import { useDensity } from "~/stores/density";
+import { useFormat, type Formatters } from "~/stores/locale";
+
+export type StatFormat = "currency" | "percent" | "duration" | "compact";
+
+/** Formats a stat value in the profile's locale. `percent` expects a 0–1 ratio, `duration` milliseconds. */
+export function formatStat(format: StatFormat | ((value: number) => string), value: number, f: Formatters): string {
+  if (typeof format === "function") return format(value);
+  switch (format) {
+    case "currency":
+      return f.currency(value);
+    case "percent":
+      return f.number(value, { style: "percent", maximumFractionDigits: 2 });
+    case "duration":
+      return value >= 1000
+        ? f.number(value / 1000, { style: "unit", unit: "second", unitDisplay: "short", maximumFractionDigits: 1 })
+        : f.number(value, { style: "unit", unit: "millisecond", unitDisplay: "short", maximumFractionDigits: 0 });
+    case "compact":
+      return f.number(value, { notation: "compact", maximumFractionDigits: 1 });
+  }
+}
+
+export interface StatChange {
+  /** Relative change, e.g. 0.125 for +12.5%; null when there's nothing to compare to */
+  ratio: number | null;
+  direction: "up" | "down" | "flat";
+}
+
+export function computeChange(current: number, previous: number): StatChange {
+  if (current === previous) return { ratio: 0, direction: "flat" };
+  const direction = current > previous ? "up" : "down";
+  return { ratio: previous === 0 ? null : (current - previous) / Math.abs(previous), direction };
+}
 
 interface StatCardProps {
   title: string;
-  value: string;
-  change: string;
-  changeType: "up" | "down";
   icon: string;
   tooltip: string;
+  /** Undefined until the first load */
+  current?: number;
+  previous?: number;
+  format: StatFormat | ((value: number) => string);
+  /** e.g. "vs previous 7 days" */
+  comparison: string;
+  /** False for metrics where down is good (response time) */
+  higherIsBetter?: boolean;
+  /** The current period's series, oldest first, drawn as a sparkline */
+  trend?: number[];
+  /** One per `trend` value, e.g. the day */
+  trendLabels?: string[];
+  loading?: boolean;
+  error?: unknown;
+  onRetry?: () => void;
 }
 
 export default function StatCard(props: StatCardProps) {
+  const density = useDensity();
+  const format = useFormat();
+
+  const hasValue = () => props.current !== undefined;
+  const change = () => computeChange(props.current ?? 0, props.previous ?? 0);
+  // Green when the move is in the good direction, whichever way that is
+  const tone = () => {
+    const { direction } = change();
+    if (direction === "flat") return "text-fg-muted";
+    const good = (direction === "up") === (props.higherIsBetter ?? true);
+    return good ? "text-emerald-600" : "text-red-500";
+  };
+  const changeText = () => {
+    const { ratio, direction } = change();
+    const arrow = direction === "up" ? "↑" : direction === "down" ? "↓" : "→";
+    if (ratio === null) return `${arrow} new`;
+    return `${arrow} ${format().number(Math.abs(ratio), { style: "percent", maximumFractionDigits: 1 })}`;
+  };
+
   return (
     <Tooltip openDelay={400}>
-      <Tooltip.Trigger class="bg-white rounded-xl shadow-sm border border-gray-100 p-5 flex flex-col gap-3 hover:shadow-md transition-shadow cursor-default text-left w-full">
+      {/* A div, not the default button: the error state holds a Retry button */}
+      <Tooltip.Trigger
+        as="div"
+        aria-busy={props.loading}
+        class={`bg-surface rounded-xl shadow-sm border border-line ${density().card} flex flex-col gap-3 hover:shadow-md transition-[box-shadow,opacity] cursor-default text-left w-full ${
+          props.loading && hasValue() ? "opacity-60" : ""
+        }`}
+      >
         <div class="flex items-center justify-between">
-          <span class="text-sm font-medium text-gray-500">{props.title}</span>
+          <span class="text-sm font-medium text-fg-muted">{props.title}</span>
           <span class="text-2xl">{props.icon}</span>
         </div>
-        <div class="text-2xl font-bold">{props.value}</div>
-        <div
-          class={`text-sm font-medium ${
-            props.changeType === "up" ? "text-emerald-600" : "text-red-500"
-          }`}
+
+        <Show
+          when={!(props.error && !props.loading)}
+          fallback={
+            <div class="text-sm">
+              <p class="text-red-500 font-medium">Couldn't load</p>
+              <button
+                type="button"
+                onClick={() => props.onRetry?.()}
+                class="mt-1 text-xs font-medium text-accent hover:underline cursor-pointer"
+              >
+                Retry
+              </button>
+            </div>
+          }
         >
-          {props.changeType === "up" ? "↑" : "↓"} {props.change} vs last month
-        </div>
+          <Show
+            when={hasValue()}
+            fallback={
+              <div class="animate-pulse space-y-2">
+                <div class="h-7 w-28 bg-surface-strong rounded" />
+                <div class="h-4 w-40 bg-surface-muted rounded" />
+              </div>
+            }
+          >
+            <div class="text-2xl font-bold tabular-nums">{formatStat(props.format, props.current!, format())}</div>
+            <div class="text-sm font-medium">
+              <span class={tone()}>{changeText()}</span>{" "}
+              <span class="text-fg-subtle font-normal">{props.comparison}</span>
+            </div>
+            <Show when={props.trend}>
+              {(trend) => (
+                <Sparkline
+                  values={trend()}
+                  labels={props.trendLabels}
+                  format={(value) => formatStat(props.format, value, format())}
+                  name={props.title}
+                  class={tone()}
+                />
+              )}
+            </Show>
+          </Show>
+        </Show>
       </Tooltip.Trigger>
       <Tooltip.Portal>
         <Tooltip.Content class="kb-tooltip-content">
           {props.tooltip}
+          <Show when={hasValue() && props.previous !== undefined}>
+            <br />
+            <span class="opacity-70">
+              Previous: {formatStat(props.format, props.previous!, format())}
+            </span>
+          </Show>
         </Tooltip.Content>
       </Tooltip.Portal>
     </Tooltip>
@@ -0,0 +1,15 @@
+import type { MemberRow } from "~/data/members";
+
+const statusColor: Record<MemberRow["status"], string> = {
+  Active: "bg-emerald-100 text-emerald-700",
+  Inactive: "bg-surface-muted text-fg-muted",
+  Pending: "bg-amber-100 text-amber-700",
+};
+
+export default function StatusBadge(props: { status: MemberRow["status"] }) {
+  return (
+    <span class={`text-xs px-2 py-0.5 rounded-full font-medium ${statusColor[props.status]}`}>
+      {props.status}
+    </span>
+  );
+}
@@ -0,0 +1,44 @@
+import { Portal } from "solid-js/web";
+import { Show } from "solid-js";
+import { Toast, toaster } from "@kobalte/core/toast";
+
+type ToastTone = "info" | "success" | "error";
+
+const toneClass: Record<ToastTone, string> = {
+  info: "border-l-sky-400",
+  success: "border-l-emerald-400",
+  error: "border-l-red-500",
+};
+
+/**
+ * Imperative toast API — callable from event handlers and async code,
+ * no component context needed. Kobalte's `toaster` keeps the queue;
+ * <Toaster /> (mounted once in Layout) is where they render.
+ */
+export function showToast(options: { title: string; description?: string; tone?: ToastTone }) {
+  return toaster.show((props) => (
+    <Toast toastId={props.toastId} class={`kb-toast ${toneClass[options.tone ?? "info"]}`}>
+      <div class="flex-1 min-w-0">
+        <Toast.Title class="text-sm font-medium">{options.title}</Toast.Title>
+        <Show when={options.description}>
+          <Toast.Description class="text-xs text-gray-300 mt-0.5">
+            {options.description}
+          </Toast.Description>
+        </Show>
+      </div>
+      <Toast.CloseButton aria-label="Dismiss" class="text-gray-400 hover:text-white cursor-pointer">
+        ×
+      </Toast.CloseButton>
+    </Toast>
+  ));
+}
+
+export default function Toaster() {
+  return (
+    <Portal>
+      <Toast.Region duration={5000} limit={4}>
+        <Toast.List class="kb-toast-list" />
+      </Toast.Region>
+    </Portal>
+  );
+}
@@ -0,0 +1,77 @@
+import { For, createEffect, createMemo, type JSX } from "solid-js";
+
+interface VirtualTableBodyProps {
+  /** Total number of rows, loaded or not */
+  count: number;
+  /** Fixed height of every row, in px — the whole technique relies on it */
+  rowHeight: number;
+  scrollTop: number;
+  viewportHeight: number;
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+  colSpan: number;
+  renderRow: (index: number) => JSX.Element;
+  /** Called with [first, last] whenever the rendered window moves */
+  onRangeChange?: (first: number, last: number) => void;
+}
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Windowed rendering
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Only the rows inside the scroll viewport (plus a little overscan)
+ *  exist in the DOM. Two spacer rows stand in for everything else, so
+ *  the scrollbar still reflects all `count` rows:
+ *
+ *    ┌──────────────────────┐
+ *    │ spacer (first × h)   │  ← rows above the window
+ *    │ row first            │
+ *    │ …                    │  ← ~20 real <tr>s
+ *    │ row last             │
+ *    │ spacer (rest × h)    │  ← rows below the window
+ *    └──────────────────────┘
+ *
+ *  Scrolling only moves `first`/`last`. <For> over the window indexes
+ *  keeps existing rows alive when the window slides by one.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default function VirtualTableBody(props: VirtualTableBodyProps) {
+  const overscan = () => props.overscan ?? 5;
+
+  const range = createMemo(
+    () => {
+      const first = Math.max(0, Math.floor(props.scrollTop / props.rowHeight) - overscan());
+      const visible = Math.ceil(props.viewportHeight / props.rowHeight);
+      const last = Math.min(props.count - 1, first + visible + overscan() * 2);
+      return { first, last };
+    },
+    undefined,
+    { equals: (a, b) => a.first === b.first && a.last === b.last }
+  );
+
+  const indexes = () => {
+    const { first, last } = range();
+    return Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => first + i);
+  };
+
+  createEffect(() => {
+    const { first, last } = range();
+    if (last >= first) props.onRangeChange?.(first, last);
+  });
+
+  return (
+    <tbody>
+      <tr aria-hidden style={{ height: `${range().first * props.rowHeight}px` }}>
+        <td colSpan={props.colSpan} class="p-0" />
+      </tr>
+      <For each={indexes()}>{(index) => props.renderRow(index)}</For>
+      <tr
+        aria-hidden
+        style={{ height: `${Math.max(0, props.count - range().last - 1) * props.rowHeight}px` }}
+      >
+        <td colSpan={props.colSpan} class="p-0" />
+      </tr>
+    </tbody>
+  );
+}
@@ -0,0 +1,79 @@
+import { memberStatuses, type EditableMemberField, type MemberRow } from "~/data/members";
+import type { ColumnDef } from "~/stores/columnLayout";
+import { useFormat } from "~/stores/locale";
+import StatusBadge from "./StatusBadge";
+
+// Follows the profile's locale: $12,340 / 12.340 $ / …
+function Revenue(props: { amount: number }) {
+  const format = useFormat();
+  return <span class="font-medium">{format().currency(props.amount)}</span>;
+}
+
+// ── Team Members columns ──
+// The default order is the order here; `defaultHidden` ones start off
+// in the column chooser. `edit` hands the cell to inline editing.
+
+export const memberColumns: ColumnDef<MemberRow, EditableMemberField>[] = [
+  {
+    id: "id",
+    header: "ID",
+    sortKey: "id",
+    align: "right",
+    width: 70,
+    defaultHidden: true,
+    cell: (row) => <span class="text-fg-subtle tabular-nums">#{row.id}</span>,
+  },
+  {
+    id: "name",
+    header: "Name",
+    sortKey: "name",
+    width: 200,
+    minWidth: 120,
+    required: true,
+    edit: { field: "name" },
+    cell: (row) => <span class="font-medium">{row.name}</span>,
+  },
+  {
+    id: "email",
+    header: "Email",
+    sortKey: "email",
+    width: 240,
+    minWidth: 120,
+    edit: { field: "email", type: "email" },
+    cell: (row) => <span class="text-fg-muted">{row.email}</span>,
+  },
+  {
+    id: "role",
+    header: "Role",
+    sortKey: "role",
+    width: 180,
+    edit: { field: "role" },
+    cell: (row) => row.role,
+  },
+  {
+    id: "status",
+    header: "Status",
+    sortKey: "status",
+    width: 110,
+    minWidth: 90,
+    edit: { field: "status", options: memberStatuses },
+    cell: (row) => <StatusBadge status={row.status} />,
+  },
+  {
+    id: "age",
+    header: "Age",
+    sortKey: "age",
+    align: "right",
+    width: 70,
+    defaultHidden: true,
+    cell: (row) => <span class="tabular-nums">{row.age}</span>,
+  },
+  {
+    id: "revenue",
+    header: "Revenue",
+    sortKey: "revenue",
+    align: "right",
+    width: 120,
+    cell: (row) => <Revenue amount={row.revenue} />,
+  },
+];
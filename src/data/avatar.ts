@@ -0,0 +1,76 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Avatar images — any upload → a small square data URL
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The avatar lives in settings, and settings live in localStorage
+ *  (~5 MB for the whole origin), so a 4 MB phone photo can't be
+ *  stored as-is. It's shrunk on a canvas first:
+ *
+ *    4032×3024 photo ──crop centre square──▶ 3024×3024
+ *                    ──resize──────────────▶ 128×128 ──▶ data:image/webp…
+ *
+ *  which comes out at a few KB. The crop keeps the middle of the
+ *  image — where a face usually is in a portrait.
+ *
+ *  Nothing is uploaded anywhere: the file is decoded and re-encoded
+ *  in the browser.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export const AVATAR_SIZE = 128;
+
+// createAvatar's output is a few KB; anything far bigger didn't come from it
+export const MAX_AVATAR_URL_LENGTH = 200_000;
+
+// Larger files are rejected before decoding, which would use a lot of memory
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The file couldn't be read as an image"));
+    };
+    image.src = url;
+  });
+}
+
+/** Centre-crops `file` to a square and encodes it at `size` px. Throws with a user-facing message. */
+export async function createAvatar(file: File, size = AVATAR_SIZE): Promise<string> {
+  if (!file.type.startsWith("image/")) throw new Error("Choose an image file");
+  if (file.size > MAX_FILE_BYTES) throw new Error("Choose an image under 10 MB");
+
+  const image = await loadImage(file);
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  if (side === 0) throw new Error("The image is empty");
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("This browser can't process images");
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size
+  );
+
+  // Browsers without a WebP encoder silently return PNG; JPEG is smaller
+  const webp = canvas.toDataURL("image/webp", 0.85);
+  return webp.startsWith("data:image/webp") ? webp : canvas.toDataURL("image/jpeg", 0.85);
+}
@@ -0,0 +1,100 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Export — rows → CSV / JSON files
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  CSV follows RFC 4180: fields containing a comma, quote or line
+ *  break are wrapped in quotes, and quotes inside are doubled:
+ *
+ *    She said "hi", twice  →  "She said ""hi"", twice"
+ *
+ *  Excel ignores the charset unless the file starts with a UTF-8
+ *  byte-order mark, so accented names turn into mojibake without it.
+ *  That's what the `bom` option is for.
+ *
+ *  Text starting with = + - @ is prefixed with a quote so a
+ *  spreadsheet shows it as text instead of evaluating it as a formula.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import type { DataSource, ListParams } from "./source";
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportColumn<T> {
+  key: keyof T & string;
+  header: string;
+}
+
+const BOM = "\uFEFF";
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(records: readonly T[], columns: readonly ExportColumn<T>[]): string {
+  const header = columns.map((c) => csvField(c.header)).join(",");
+  const lines = records.map((record) => columns.map((c) => csvField(record[c.key])).join(","));
+  // CRLF line endings, as RFC 4180 (and Excel) expect
+  return [header, ...lines].join("\r\n");
+}
+
+export function toJson<T>(records: readonly T[]): string {
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Pages through a source until every matching row is loaded, so large
+ * exports don't depend on the API accepting one huge page.
+ */
+export async function fetchAllRows<Row>(
+  source: DataSource<Row>,
+  params: Omit<ListParams<Row>, "page" | "pageSize">,
+  chunkSize = 100
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let page = 0; ; page++) {
+    const result = await source.list({ ...params, page, pageSize: chunkSize });
+    rows.push(...result.rows);
+    if (result.rows.length === 0 || rows.length >= result.total) return rows;
+  }
+}
+
+/** Triggers a browser download of in-memory content. */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.hidden = true;
+  document.body.append(link);
+  link.click();
+  // Revoking in the same tick can cancel the download in Firefox and Safari
+  setTimeout(() => {
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
+
+export interface ExportOptions<T> {
+  filename: string;   // without extension
+  format: ExportFormat;
+  columns: readonly ExportColumn<T>[];
+  /** Prepend a UTF-8 BOM to CSV output (for Excel) */
+  bom?: boolean;
+}
+
+export function exportRecords<T>(records: readonly T[], options: ExportOptions<T>) {
+  if (options.format === "json") {
+    downloadFile(`${options.filename}.json`, toJson(records), "application/json");
+    return;
+  }
+  const csv = toCsv(records, options.columns);
+  downloadFile(
+    `${options.filename}.csv`,
+    options.bom ? BOM + csv : csv,
+    "text/csv;charset=utf-8"
+  );
+}
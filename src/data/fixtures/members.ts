@@ -0,0 +1,38 @@
+import type { DummyUser } from "../members";
+
+/**
+ * Offline stand-in for dummyjson.com/users — same shape, no network.
+ * Used when VITE_MEMBERS_SOURCE is "fixture" or "memory".
+ */
+export const memberFixture: DummyUser[] = [
+  { id: 1, firstName: "Emily", lastName: "Johnson", email: "emily.johnson@x.dummyjson.com", age: 22, role: "admin", company: { title: "Sales Manager" } },
+  { id: 2, firstName: "Michael", lastName: "Williams", email: "michael.williams@x.dummyjson.com", age: 29, role: "moderator", company: { title: "Product Manager" } },
+  { id: 3, firstName: "Sophia", lastName: "Brown", email: "sophia.brown@x.dummyjson.com", age: 36, role: "user", company: { title: "Accountant" } },
+  { id: 4, firstName: "James", lastName: "Davis", email: "james.davis@x.dummyjson.com", age: 43, role: "user", company: { title: "Operations Manager" } },
+  { id: 5, firstName: "Emma", lastName: "Miller", email: "emma.miller@x.dummyjson.com", age: 50, role: "moderator", company: { title: "Support Specialist" } },
+  { id: 6, firstName: "Olivia", lastName: "Wilson", email: "olivia.wilson@x.dummyjson.com", age: 57, role: "user", company: { title: "Marketing Lead" } },
+  { id: 7, firstName: "Alexander", lastName: "Jones", email: "alexander.jones@x.dummyjson.com", age: 26, role: "admin", company: { title: "Designer" } },
+  { id: 8, firstName: "Ava", lastName: "Taylor", email: "ava.taylor@x.dummyjson.com", age: 33, role: "moderator", company: { title: "Research Analyst" } },
+  { id: 9, firstName: "Ethan", lastName: "Anderson", email: "ethan.anderson@x.dummyjson.com", age: 40, role: "user", company: { title: "Software Engineer" } },
+  { id: 10, firstName: "Isabella", lastName: "Thomas", email: "isabella.thomas@x.dummyjson.com", age: 47, role: "user", company: { title: "Data Scientist" } },
+  { id: 11, firstName: "Liam", lastName: "Gray", email: "liam.gray@x.dummyjson.com", age: 54, role: "moderator", company: { title: "Sales Manager" } },
+  { id: 12, firstName: "Mia", lastName: "Garcia", email: "mia.garcia@x.dummyjson.com", age: 23, role: "user", company: { title: "Product Manager" } },
+  { id: 13, firstName: "Noah", lastName: "Martinez", email: "noah.martinez@x.dummyjson.com", age: 30, role: "admin", company: { title: "Accountant" } },
+  { id: 14, firstName: "Charlotte", lastName: "Lopez", email: "charlotte.lopez@x.dummyjson.com", age: 37, role: "moderator", company: { title: "Operations Manager" } },
+  { id: 15, firstName: "William", lastName: "Lee", email: "william.lee@x.dummyjson.com", age: 44, role: "user", company: { title: "Support Specialist" } },
+  { id: 16, firstName: "Amelia", lastName: "Clark", email: "amelia.clark@x.dummyjson.com", age: 51, role: "user", company: { title: "Marketing Lead" } },
+  { id: 17, firstName: "Benjamin", lastName: "Lewis", email: "benjamin.lewis@x.dummyjson.com", age: 58, role: "moderator", company: { title: "Designer" } },
+  { id: 18, firstName: "Harper", lastName: "Walker", email: "harper.walker@x.dummyjson.com", age: 27, role: "user", company: { title: "Research Analyst" } },
+  { id: 19, firstName: "Lucas", lastName: "Hall", email: "lucas.hall@x.dummyjson.com", age: 34, role: "admin", company: { title: "Software Engineer" } },
+  { id: 20, firstName: "Evelyn", lastName: "Young", email: "evelyn.young@x.dummyjson.com", age: 41, role: "moderator", company: { title: "Data Scientist" } },
+  { id: 21, firstName: "Henry", lastName: "King", email: "henry.king@x.dummyjson.com", age: 48, role: "user", company: { title: "Sales Manager" } },
+  { id: 22, firstName: "Abigail", lastName: "Wright", email: "abigail.wright@x.dummyjson.com", age: 55, role: "user", company: { title: "Product Manager" } },
+  { id: 23, firstName: "Mason", lastName: "Scott", email: "mason.scott@x.dummyjson.com", age: 24, role: "moderator", company: { title: "Accountant" } },
+  { id: 24, firstName: "Ella", lastName: "Green", email: "ella.green@x.dummyjson.com", age: 31, role: "user", company: { title: "Operations Manager" } },
+  { id: 25, firstName: "Logan", lastName: "Baker", email: "logan.baker@x.dummyjson.com", age: 38, role: "admin", company: { title: "Support Specialist" } },
+  { id: 26, firstName: "Scarlett", lastName: "Adams", email: "scarlett.adams@x.dummyjson.com", age: 45, role: "moderator", company: { title: "Marketing Lead" } },
+  { id: 27, firstName: "Jackson", lastName: "Nelson", email: "jackson.nelson@x.dummyjson.com", age: 52, role: "user", company: { title: "Designer" } },
+  { id: 28, firstName: "Grace", lastName: "Hill", email: "grace.hill@x.dummyjson.com", age: 59, role: "user", company: { title: "Research Analyst" } },
+  { id: 29, firstName: "Aiden", lastName: "Rivera", email: "aiden.rivera@x.dummyjson.com", age: 28, role: "moderator", company: { title: "Software Engineer" } },
+  { id: 30, firstName: "Chloe", lastName: "Campbell", email: "chloe.campbell@x.dummyjson.com", age: 35, role: "user", company: { title: "Data Scientist" } },
+];
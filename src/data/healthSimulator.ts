@@ -0,0 +1,42 @@
+/**
+ * Fake host metrics for development: a random walk per metric with
+ * the occasional spike, so the warning and critical states actually
+ * show up. Shared by the in-browser mock source and the dev server's
+ * /api/health endpoints (see vite.config.ts) — keep it free of
+ * browser and Vite APIs.
+ */
+import type { HealthSample } from "./systemHealth";
+
+interface Walk {
+  value: number;
+  /** Where the value drifts back to */
+  rest: number;
+  min: number;
+  max: number;
+  /** Largest step per sample */
+  step: number;
+}
+
+// Spikes are rare: at a sample every 2s, one every ~1–2 minutes
+const SPIKE_CHANCE = 0.02;
+
+export function createHealthSimulator(random: () => number = Math.random) {
+  const walks: Record<string, Walk> = {
+    cpu: { value: 67, rest: 55, min: 5, max: 100, step: 6 },
+    memory: { value: 4.2, rest: 4.5, min: 1, max: 8, step: 0.25 },
+    disk: { value: 34, rest: 30, min: 0, max: 100, step: 8 },
+    network: { value: 420, rest: 400, min: 0, max: 1000, step: 60 },
+  };
+
+  return function next(): HealthSample {
+    const values: Record<string, number> = {};
+    for (const [id, walk] of Object.entries(walks)) {
+      const pull = (walk.rest - walk.value) * 0.1;
+      const jitter = (random() * 2 - 1) * walk.step;
+      const spike = random() < SPIKE_CHANCE ? (walk.max - walk.value) * 0.8 : 0;
+      walk.value = Math.min(walk.max, Math.max(walk.min, walk.value + pull + jitter + spike));
+      values[id] = Math.round(walk.value * 100) / 100;
+    }
+    return { at: Date.now(), values };
+  };
+}
@@ -0,0 +1,230 @@
+import {
+  createMemorySource,
+  createRestSource,
+  createStaticSource,
+  type DataSource,
+} from "./source";
+import { memberFixture } from "./fixtures/members";
+import type { ExportColumn } from "./export";
+
+// ── Types ──
+
+/** Shape returned by dummyjson.com/users */
+export interface DummyUser {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  age: number;
+  role: string;               // "admin" | "moderator" | "user"
+  company: { title: string }; // job title like "Sales Manager"
+}
+
+/**
+ * The full record from dummyjson.com/users/:id. The list endpoint is
+ * asked for only the fields above (`select=`); the detail view gets
+ * everything, so the extras are optional — fixtures don't have them.
+ */
+export interface DummyUserDetail extends DummyUser {
+  maidenName?: string;
+  gender?: string;
+  phone?: string;
+  username?: string;
+  birthDate?: string;
+  image?: string;
+  bloodGroup?: string;
+  eyeColor?: string;
+  university?: string;
+  address?: { address: string; city: string; state: string; postalCode: string; country: string };
+  company: {
+    title: string;
+    name?: string;
+    department?: string;
+    address?: { address: string; city: string; state: string; postalCode: string; country: string };
+  };
+}
+
+/** Our table row after mapping */
+export interface MemberRow {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  status: "Active" | "Inactive" | "Pending";
+  revenue: number;            // raw amount in USD — format only when rendering
+  age: number;
+}
+
+export const memberStatuses: MemberRow["status"][] = ["Active", "Pending", "Inactive"];
+
+// ── Mapping helpers ──
+
+function deriveStatus(apiRole: string): MemberRow["status"] {
+  // Map the API's "role" field to a display status
+  switch (apiRole) {
+    case "admin":     return "Active";
+    case "moderator": return "Pending";
+    default:          return "Inactive";
+  }
+}
+
+function deriveRevenue(id: number, age: number): number {
+  // Deterministic "revenue" seeded from id and age
+  return id * 1340 + age * 210;
+}
+
+/** Inverse of deriveStatus, for writing a status back to the API */
+const statusToApiRole: Record<MemberRow["status"], string> = {
+  Active: "admin",
+  Pending: "moderator",
+  Inactive: "user",
+};
+
+export function mapUser(u: DummyUser): MemberRow {
+  return {
+    id: u.id,
+    name: `${u.firstName} ${u.lastName}`,
+    email: u.email,
+    role: u.company.title,        // real job title from the API
+    status: deriveStatus(u.role),  // derived from system role
+    revenue: deriveRevenue(u.id, u.age),
+    age: u.age,
+  };
+}
+
+/** Row patch → dummyjson patch. Revenue is derived (and age read-only), so neither is sent. */
+export function unmapUser(patch: Partial<MemberRow>): Partial<DummyUser> {
+  const raw: Partial<DummyUser> = {};
+  if (patch.name !== undefined) {
+    const [firstName, ...rest] = patch.name.trim().split(/\s+/);
+    raw.firstName = firstName;
+    raw.lastName = rest.join(" ");
+  }
+  if (patch.email !== undefined) raw.email = patch.email;
+  if (patch.role !== undefined) raw.company = { title: patch.role };
+  if (patch.status !== undefined) raw.role = statusToApiRole[patch.status];
+  return raw;
+}
+
+// ── Validation ──
+// Shared by inline editing (and anything else that writes members).
+// Returns a message for the user, or null when the value is fine.
+
+export type EditableMemberField = "name" | "email" | "role" | "status";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateMemberField(field: EditableMemberField, value: string): string | null {
+  const trimmed = value.trim();
+  switch (field) {
+    case "name":
+      return trimmed ? null : "Name can't be empty";
+    case "email":
+      return EMAIL_PATTERN.test(trimmed) ? null : "Enter a valid email address";
+    case "role":
+      return trimmed ? null : "Role can't be empty";
+    case "status":
+      return memberStatuses.includes(value as MemberRow["status"]) ? null : "Pick a status";
+  }
+}
+
+// ── Export shape ──
+// Revenue goes out as a raw number with its currency alongside, so a
+// spreadsheet can sum it — "$12,340" would be imported as text.
+
+export interface MemberExportRecord {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  status: MemberRow["status"];
+  revenue: number;
+  currency: string;
+}
+
+export const memberExportColumns: ExportColumn<MemberExportRecord>[] = [
+  { key: "id", header: "ID" },
+  { key: "name", header: "Name" },
+  { key: "email", header: "Email" },
+  { key: "role", header: "Role" },
+  { key: "status", header: "Status" },
+  { key: "revenue", header: "Revenue" },
+  { key: "currency", header: "Currency" },
+];
+
+export function toExportRecord(row: MemberRow): MemberExportRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    status: row.status,
+    revenue: row.revenue,
+    currency: "USD",
+  };
+}
+
+// ── Sources ──
+// Pick a backend with VITE_MEMBERS_SOURCE in `.env.local`:
+//   rest    (default) → dummyjson.com
+//   fixture           → the bundled fixture through the static adapter
+//                       (pass a URL as `from` to load a JSON file instead)
+//   memory            → the fixture as a plain array, with fake latency
+
+const searchFields: (keyof MemberRow)[] = ["name", "email"];
+
+export function createMembersRestSource(): DataSource<MemberRow> {
+  return createRestSource<DummyUser, MemberRow>({
+    baseUrl: "https://dummyjson.com/users",
+    collectionKey: "users",
+    select: ["id", "firstName", "lastName", "email", "role", "company", "age"],
+    map: mapUser,
+    // The API sorts by one field, so name sorts by first name — on the
+    // filtered (in-memory) path too, which keeps the server's order.
+    // status and revenue are computed in mapUser, so the adapter sorts
+    // those in memory
+    sortFields: { id: "id", name: "firstName", email: "email", role: "company.title", age: "age" },
+    toRaw: unmapUser,
+  });
+}
+
+export function createMembersFixtureSource(): DataSource<MemberRow> {
+  return createStaticSource<DummyUser, MemberRow>({
+    from: async () => memberFixture,
+    map: mapUser,
+    getId: (row) => row.id,
+    searchFields,
+  });
+}
+
+export function createMembersMemorySource(delay = 400): DataSource<MemberRow> {
+  return createMemorySource(memberFixture.map(mapUser), {
+    getId: (row) => row.id,
+    searchFields,
+    delay,
+  });
+}
+
+// Full records for the detail drawer and /members/:id — same backend,
+// identity mapping, so `get(id)` resolves the raw DummyUserDetail
+export function createMemberRecordsSource(): DataSource<DummyUserDetail> {
+  if (import.meta.env.VITE_MEMBERS_SOURCE === "fixture" || import.meta.env.VITE_MEMBERS_SOURCE === "memory") {
+    return createMemorySource<DummyUserDetail>(memberFixture, { getId: (user) => user.id });
+  }
+  return createRestSource<DummyUserDetail, DummyUserDetail>({
+    baseUrl: "https://dummyjson.com/users",
+    collectionKey: "users",
+    map: (user) => user,
+  });
+}
+
+function createDefaultMembersSource(): DataSource<MemberRow> {
+  switch (import.meta.env.VITE_MEMBERS_SOURCE) {
+    case "fixture": return createMembersFixtureSource();
+    case "memory":  return createMembersMemorySource();
+    default:        return createMembersRestSource();
+  }
+}
+
+export const membersSource = createDefaultMembersSource();
+export const memberRecordsSource = createMemberRecordsSource();
@@ -0,0 +1,75 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Daily business metrics — a DataSource, like the members table
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The dashboard's numbers are all derived from ONE daily series:
+ *
+ *    { day: "2026-10-18", revenue: 1712, visitors: 2481,
+ *      conversions: 79, activeUsers: 2304, responseMs: 238 }
+ *
+ *  A stat card sums or averages a window of it; a chart plots it.
+ *  Because everything reads the same rows, a card and a chart for
+ *  the same period can't disagree.
+ *
+ *  The rows come through the same DataSource interface as the Team
+ *  Members table (see data/source), so the same adapters apply. The
+ *  last N days are just the first page sorted by day, newest first:
+ *
+ *    source.list({ page: 0, pageSize: 14, sort: { key: "day", direction: "desc" } })
+ *
+ *  Days are UTC calendar days ("YYYY-MM-DD"), the same for every viewer.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createMemorySource, createRestSource, type DataSource } from "./source";
+import { METRICS_HISTORY_DAYS, mockDailyMetrics } from "./metricsSimulator";
+
+export interface DailyMetrics {
+  /** UTC day, "YYYY-MM-DD" */
+  day: string;
+  revenue: number;
+  visitors: number;
+  conversions: number;
+  activeUsers: number;
+  /** Mean API response time that day */
+  responseMs: number;
+}
+
+/** The `days` most recent rows, oldest first */
+export async function fetchRecentDays(source: DataSource<DailyMetrics>, days: number): Promise<DailyMetrics[]> {
+  const { rows } = await source.list({ page: 0, pageSize: days, sort: { key: "day", direction: "desc" } });
+  return rows.slice().reverse();
+}
+
+// ── Sources ──
+// Pick a backend with VITE_METRICS_SOURCE in `.env.local`:
+//   memory (default) → simulated history as a plain array, with fake latency
+//   rest             → /api/metrics/daily, dummyjson style; `vite dev`
+//                      serves it from the same simulator (see vite.config.ts)
+
+export const METRICS_URL = "/api/metrics/daily";
+
+// A day's epoch ms doubles as its numeric id
+const dayId = (row: DailyMetrics) => Date.parse(row.day);
+
+export function createMetricsMemorySource(delay = 500): DataSource<DailyMetrics> {
+  return createMemorySource(mockDailyMetrics(new Date(), METRICS_HISTORY_DAYS), { getId: dayId, delay });
+}
+
+export function createMetricsRestSource(baseUrl = METRICS_URL): DataSource<DailyMetrics> {
+  return createRestSource<DailyMetrics, DailyMetrics>({
+    baseUrl,
+    collectionKey: "days",
+    map: (row) => row,
+    sortFields: { day: "day" },
+  });
+}
+
+function createDefaultMetricsSource(): DataSource<DailyMetrics> {
+  switch (import.meta.env.VITE_METRICS_SOURCE) {
+    case "rest": return createMetricsRestSource();
+    default:     return createMetricsMemorySource();
+  }
+}
+
+export const metricsSource = createDefaultMetricsSource();
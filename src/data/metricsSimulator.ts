@@ -0,0 +1,56 @@
+/**
+ * Fake daily business metrics. DETERMINISTIC: each day's values come
+ * from a PRNG seeded with the day, so every reload (and the dev API in
+ * vite.config.ts) returns the same history. Shared by the in-browser
+ * memory source and the dev server — keep it free of browser and
+ * Vite APIs.
+ */
+import type { DailyMetrics } from "./metrics";
+
+const DAY_MS = 24 * 3600_000;
+
+/** Two years: enough for a quarter and the quarter before it, with room to spare */
+export const METRICS_HISTORY_DAYS = 730;
+
+/** "YYYY-MM-DD" of the UTC day `date` falls on */
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// mulberry32 — tiny seeded PRNG, plenty for fake metrics
+function seeded(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function mockDay(dayIndex: number): DailyMetrics {
+  const random = seeded(dayIndex * 2654435761);
+  const noise = (spread: number) => 1 + (random() * 2 - 1) * spread;
+  const weekday = new Date(dayIndex * DAY_MS).getUTCDay();
+  const weekend = weekday === 0 || weekday === 6 ? 0.7 : 1;
+  // Slow growth: ~10% a year
+  const trend = 1 + (dayIndex % 3650) / 3650;
+
+  const visitors = Math.round(2400 * weekend * trend * noise(0.15));
+  const conversions = Math.round(visitors * 0.032 * noise(0.25));
+  return {
+    day: dayKey(new Date(dayIndex * DAY_MS)),
+    revenue: Math.round(conversions * 21 * noise(0.2)),
+    visitors,
+    conversions,
+    activeUsers: Math.round(2300 * trend * noise(0.06)),
+    responseMs: Math.round(240 * noise(0.15) * (weekend === 1 ? 1.05 : 0.9)),
+  };
+}
+
+/** One row per day, oldest first, for `days` days ending with `until` */
+export function mockDailyMetrics(until: Date, days: number): DailyMetrics[] {
+  const last = Math.floor(until.getTime() / DAY_MS);
+  return Array.from({ length: days }, (_, i) => mockDay(last - days + 1 + i));
+}
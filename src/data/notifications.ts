@@ -0,0 +1,86 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  NotificationSource — where notifications come from
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Like DataSource for rows, the inbox doesn't care what produces
+ *  notifications. A source is anything you can subscribe to:
+ *
+ *    const unsubscribe = source.subscribe((event) => notify(event));
+ *
+ *  A WebSocket, an SSE stream or a polling loop all fit behind it.
+ *  Here there are two:
+ *
+ *    createMockNotificationSource()  → random events on a timer, for dev
+ *    createSilentNotificationSource() → never emits
+ *
+ *  Pick one with VITE_NOTIFICATIONS_SOURCE in `.env.local`; the default
+ *  is the mock in `vite dev` and silence in a production build.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import type { NotificationCategory } from "~/stores/notificationPrefs";
+
+export interface NotificationEvent {
+  category: NotificationCategory;
+  title: string;
+  body?: string;
+  /** Worth interrupting for — eligible for an OS notification */
+  urgent?: boolean;
+}
+
+export interface NotificationSource {
+  /** Starts delivering events; returns the unsubscribe */
+  subscribe(listener: (event: NotificationEvent) => void): () => void;
+}
+
+// ── Mock ──
+
+const mockEvents: NotificationEvent[] = [
+  { category: "deployments", title: "v2.4.2 deployed to production", body: "12 commits by Alice and Dave" },
+  { category: "deployments", title: "Staging deploy failed", body: "Migration 0042 timed out", urgent: true },
+  { category: "pullRequests", title: "Bob requested your review", body: "PR #351 — Cache member lookups" },
+  { category: "pullRequests", title: "PR #349 merged", body: "Add CSV export options" },
+  { category: "pullRequests", title: "Carol commented on PR #342", body: "“Can we keep the old endpoint for a release?”" },
+  { category: "systemAlerts", title: "worker-3 memory above 90%", body: "Sustained for 5 minutes", urgent: true },
+  { category: "systemAlerts", title: "API latency back to normal", body: "p95 245 ms" },
+  { category: "digest", title: "Your weekly summary is ready", body: "38 deploys, 21 PRs merged, 2 incidents" },
+];
+
+export interface MockNotificationOptions {
+  /** Average time between events; each gap is 50–150% of this */
+  intervalMs?: number;
+  /** Delay before the first event, so there's something to see */
+  firstDelayMs?: number;
+  random?: () => number;
+}
+
+export function createMockNotificationSource(options: MockNotificationOptions = {}): NotificationSource {
+  const { intervalMs = 30_000, firstDelayMs = 4_000, random = Math.random } = options;
+  return {
+    subscribe(listener) {
+      let timer: ReturnType<typeof setTimeout>;
+      const schedule = (delay: number) => {
+        timer = setTimeout(() => {
+          listener(mockEvents[Math.floor(random() * mockEvents.length)]);
+          schedule(intervalMs * (0.5 + random()));
+        }, delay);
+      };
+      schedule(firstDelayMs);
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+export function createSilentNotificationSource(): NotificationSource {
+  return { subscribe: () => () => {} };
+}
+
+function createDefaultNotificationSource(): NotificationSource {
+  switch (import.meta.env.VITE_NOTIFICATIONS_SOURCE) {
+    case "mock": return createMockNotificationSource();
+    case "none": return createSilentNotificationSource();
+    default:     return import.meta.env.DEV ? createMockNotificationSource() : createSilentNotificationSource();
+  }
+}
+
+export const notificationSource = createDefaultNotificationSource();
@@ -0,0 +1,342 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  DataSource — one interface, many backends
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Components never build URLs. They ask a DataSource for a page of
+ *  rows and render whatever comes back:
+ *
+ *    const [data] = createResource(params, (p) => source.list(p));
+ *
+ *  Because `source.list` has the same shape as any createResource
+ *  fetcher, swapping backends is a one-line change at the call site:
+ *
+ *    createRestSource(...)    → a real HTTP API (dummyjson, our backend)
+ *    createStaticSource(...)  → a JSON file or fixture module, loaded once
+ *    createMemorySource(...)  → a plain array, optionally with fake latency
+ *
+ *  The static and memory adapters share `queryRows`, so paging, sorting
+ *  and filtering behave identically offline and online.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+// ── Query types ──
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState<Row> {
+  key: keyof Row & string;
+  direction: SortDirection;
+}
+
+export interface Filter<Row> {
+  /** Free-text search — the API's own search, or `searchFields` in memory */
+  search?: string;
+  /** Exact-match facets, e.g. `{ status: "Active" }` */
+  equals?: Partial<Row>;
+}
+
+export interface ListParams<Row> {
+  page: number;       // zero-based
+  pageSize: number;
+  sort?: SortState<Row> | null;
+  filter?: Filter<Row>;
+}
+
+export interface ListResult<Row> {
+  rows: Row[];
+  total: number;      // total matching rows, across all pages
+}
+
+export interface DataSource<Row, Id = number> {
+  list(params: ListParams<Row>): Promise<ListResult<Row>>;
+  /** Resolves `undefined` when no row has that id */
+  get(id: Id): Promise<Row | undefined>;
+  count(filter?: Filter<Row>): Promise<number>;
+  /** Sorted unique values of one field — used to build facet options */
+  distinct<K extends keyof Row>(key: K): Promise<Row[K][]>;
+  /** Applies a partial update and resolves with the saved row */
+  update(id: Id, patch: Partial<Row>): Promise<Row>;
+  remove(id: Id): Promise<void>;
+}
+
+// ── Shared in-memory query engine ──
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true });
+}
+
+export function distinctValues<Row, K extends keyof Row>(rows: readonly Row[], key: K): Row[K][] {
+  return [...new Set(rows.map((row) => row[key]))].sort(compareValues);
+}
+
+/** Filter → sort → slice, applied to an array already in memory. */
+export function queryRows<Row>(
+  rows: readonly Row[],
+  params: ListParams<Row>,
+  searchFields: readonly (keyof Row)[] = []
+): ListResult<Row> {
+  let result = rows.slice();
+  const { filter, sort } = params;
+
+  const needle = filter?.search?.trim().toLowerCase();
+  if (needle) {
+    result = result.filter((row) =>
+      searchFields.some((field) => String(row[field] ?? "").toLowerCase().includes(needle))
+    );
+  }
+
+  const equals = Object.entries(filter?.equals ?? {}) as [keyof Row, unknown][];
+  if (equals.length > 0) {
+    result = result.filter((row) => equals.every(([field, value]) => row[field] === value));
+  }
+
+  if (sort) {
+    const sign = sort.direction === "asc" ? 1 : -1;
+    result.sort((a, b) => sign * compareValues(a[sort.key], b[sort.key]));
+  }
+
+  const start = params.page * params.pageSize;
+  return {
+    rows: result.slice(start, start + params.pageSize),
+    total: result.length,
+  };
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ── In-memory adapter ──
+
+export interface MemorySourceOptions<Row> {
+  getId: (row: Row) => number;
+  searchFields?: (keyof Row)[];
+  /** Simulated network latency in ms — handy for exercising loading states */
+  delay?: number;
+}
+
+export function createMemorySource<Row>(
+  initial: Row[],
+  options: MemorySourceOptions<Row>
+): DataSource<Row> {
+  const rows = initial.slice();
+  const latency = () => wait(options.delay ?? 0);
+
+  return {
+    async list(params) {
+      await latency();
+      return queryRows(rows, params, options.searchFields);
+    },
+    async get(id) {
+      await latency();
+      return rows.find((row) => options.getId(row) === id);
+    },
+    async count(filter) {
+      await latency();
+      return queryRows(rows, { page: 0, pageSize: 0, filter }, options.searchFields).total;
+    },
+    async distinct(key) {
+      await latency();
+      return distinctValues(rows, key);
+    },
+    async update(id, patch) {
+      await latency();
+      const index = rows.findIndex((row) => options.getId(row) === id);
+      if (index === -1) throw new Error(`Not found: ${id}`);
+      rows[index] = { ...rows[index], ...patch };
+      return rows[index];
+    },
+    async remove(id) {
+      await latency();
+      const index = rows.findIndex((row) => options.getId(row) === id);
+      if (index === -1) throw new Error(`Not found: ${id}`);
+      rows.splice(index, 1);
+    },
+  };
+}
+
+// ── Static JSON / fixture adapter ──
+
+export interface StaticSourceOptions<Raw, Row> extends MemorySourceOptions<Row> {
+  /** A URL to a JSON array, or a loader such as `() => import("./fixture")` */
+  from: string | (() => Promise<Raw[]>);
+  map: (raw: Raw) => Row;
+}
+
+/**
+ * Loads the whole dataset once on first use, then answers every query
+ * in memory. A failed load is not cached, so Retry tries again.
+ */
+export function createStaticSource<Raw, Row>(
+  options: StaticSourceOptions<Raw, Row>
+): DataSource<Row> {
+  let loaded: Promise<DataSource<Row>> | null = null;
+
+  async function load(): Promise<Raw[]> {
+    if (typeof options.from !== "string") return options.from();
+    const res = await fetch(options.from);
+    if (!res.ok) throw new Error(`Fixture error: ${res.status}`);
+    return res.json();
+  }
+
+  function inner(): Promise<DataSource<Row>> {
+    loaded ??= load().then(
+      (raw) => createMemorySource(raw.map(options.map), options),
+      (err) => {
+        loaded = null;
+        throw err;
+      }
+    );
+    return loaded;
+  }
+
+  return {
+    list: async (params) => (await inner()).list(params),
+    get: async (id) => (await inner()).get(id),
+    count: async (filter) => (await inner()).count(filter),
+    distinct: async (key) => (await inner()).distinct(key),
+    update: async (id, patch) => (await inner()).update(id, patch),
+    remove: async (id) => (await inner()).remove(id),
+  };
+}
+
+// ── REST adapter ──
+
+export interface RestSourceOptions<Raw, Row> {
+  /** Collection endpoint, e.g. "https://dummyjson.com/users" */
+  baseUrl: string;
+  /** Key holding the array in list responses, e.g. "users" */
+  collectionKey: string;
+  /** Fields to request via `?select=` (dummyjson style) */
+  select?: string[];
+  map: (raw: Raw) => Row;
+  /**
+   * Row keys the API can sort by, mapped to its `sortBy` field name.
+   * Keys left out (e.g. values derived during `map`) are sorted in memory.
+   */
+  sortFields?: Partial<Record<keyof Row, string>>;
+  /** Turns a row patch back into the API's shape for PATCH requests */
+  toRaw?: (patch: Partial<Row>) => Partial<Raw>;
+}
+
+interface RestListResponse {
+  total: number;
+  [key: string]: unknown;
+}
+
+// How long a fetch-every-match result is reused before asking again
+const FULL_FETCH_TTL_MS = 30_000;
+
+/**
+ * Talks to a dummyjson-style API: `?limit=&skip=` paging, `sortBy`/`order`,
+ * `/search?q=`, and `/:id` for lookups, PATCH and DELETE. Facets and sorts the API can't express
+ * are applied to the mapped rows in memory, after fetching every match.
+ * That fetch is cached per search and sort, so paging or scrolling
+ * through a filtered view doesn't download the whole set each time.
+ */
+export function createRestSource<Raw, Row>(
+  options: RestSourceOptions<Raw, Row>
+): DataSource<Row> {
+  async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(url, init);
+    if (!res.ok) throw new Error(`API error: ${res.status}`);
+    return res.json();
+  }
+
+  function listUrl(query: Record<string, string | number>, search?: string): string {
+    const params = new URLSearchParams();
+    if (search) params.set("q", search);
+    for (const [key, value] of Object.entries(query)) params.set(key, String(value));
+    if (options.select) params.set("select", options.select.join(","));
+    const path = search ? `${options.baseUrl}/search` : options.baseUrl;
+    return `${path}?${params}`;
+  }
+
+  async function fetchPage(
+    limit: number,
+    skip: number,
+    sort?: SortState<Row> | null,
+    search?: string
+  ): Promise<ListResult<Row>> {
+    const query: Record<string, string | number> = { limit, skip };
+    const sortBy = sort && options.sortFields?.[sort.key];
+    if (sortBy) {
+      query.sortBy = sortBy;
+      query.order = sort.direction;
+    }
+    const data = await request<RestListResponse>(listUrl(query, search));
+    const raw = data[options.collectionKey] as Raw[];
+    return { rows: raw.map(options.map), total: data.total };
+  }
+
+  // One entry is enough: the table asks for many pages of ONE query
+  let fullFetch: { key: string; at: number; result: Promise<ListResult<Row>> } | null = null;
+
+  /** Every match, server-sorted when `sort` is one the API knows */
+  function fetchAll(sort?: SortState<Row> | null, search?: string): Promise<ListResult<Row>> {
+    const key = JSON.stringify([search ?? "", sort ?? null]);
+    if (fullFetch?.key === key && Date.now() - fullFetch.at < FULL_FETCH_TTL_MS) return fullFetch.result;
+    const entry = { key, at: Date.now(), result: fetchPage(0, 0, sort, search) };
+    fullFetch = entry;
+    // A failed fetch isn't worth keeping
+    entry.result.catch(() => {
+      if (fullFetch === entry) fullFetch = null;
+    });
+    return entry.result;
+  }
+
+  async function list(params: ListParams<Row>): Promise<ListResult<Row>> {
+    const search = params.filter?.search?.trim() || undefined;
+    const facets = params.filter?.equals ?? {};
+    const serverSortable = !params.sort || Boolean(options.sortFields?.[params.sort.key]);
+
+    if (Object.keys(facets).length === 0 && serverSortable) {
+      return fetchPage(params.pageSize, params.page * params.pageSize, params.sort, search);
+    }
+    // limit=0 asks dummyjson for every match; the API already applied
+    // `search`, and the sort too when it could — filtering keeps that
+    // order, so a sort means the same thing on both paths
+    const all = await fetchAll(serverSortable ? params.sort : null, search);
+    return queryRows(all.rows, {
+      ...params,
+      sort: serverSortable ? null : params.sort,
+      filter: { equals: facets },
+    });
+  }
+
+  return {
+    list,
+
+    async get(id) {
+      const res = await fetch(`${options.baseUrl}/${id}`);
+      if (res.status === 404) return undefined;
+      if (!res.ok) throw new Error(`API error: ${res.status}`);
+      return options.map(await res.json());
+    },
+
+    async count(filter) {
+      return (await list({ page: 0, pageSize: 1, filter })).total;
+    },
+
+    async distinct(key) {
+      const all = await fetchAll();
+      return distinctValues(all.rows, key);
+    },
+
+    async update(id, patch) {
+      const body = options.toRaw ? options.toRaw(patch) : patch;
+      const raw = await request<Raw>(`${options.baseUrl}/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      fullFetch = null;
+      return options.map(raw);
+    },
+
+    async remove(id) {
+      await request(`${options.baseUrl}/${id}`, { method: "DELETE" });
+      fullFetch = null;
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  HealthSource — live host metrics
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  A sample is every metric's current value at one moment:
+ *
+ *    { at: 1760800000000, values: { cpu: 67, memory: 4.2, disk: 34, network: 420 } }
+ *
+ *  A source delivers samples until it fails or is stopped:
+ *
+ *    const stop = source.connect(onSample, onError);
+ *
+ *  Sources DON'T retry. After `onError` the connection is gone, and
+ *  reconnecting (with backoff) is the caller's job — one policy for
+ *  every transport, instead of EventSource's built-in retry for one
+ *  and a hand-rolled loop for the other. See stores/systemHealth.
+ *
+ *    createPollingHealthSource(url)      → GET url every few seconds
+ *    createEventStreamHealthSource(url)  → Server-Sent Events from url
+ *    createMockHealthSource()            → simulated, in the browser
+ *
+ *  Pick one with VITE_HEALTH_SOURCE ("mock" | "poll" | "sse") in
+ *  `.env.local`; the default is the mock. `vite dev` serves both
+ *  endpoints from the same simulator (see vite.config.ts), so "poll"
+ *  and "sse" work locally without a backend.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createHealthSimulator } from "./healthSimulator";
+
+export interface HealthSample {
+  /** Epoch ms */
+  at: number;
+  /** Keyed by metric id */
+  values: Record<string, number>;
+}
+
+export interface HealthSource {
+  /** Starts delivering samples; returns the stop function */
+  connect(onSample: (sample: HealthSample) => void, onError: (error: unknown) => void): () => void;
+}
+
+/** The endpoint both HTTP sources default to; `vite dev` serves it */
+export const HEALTH_URL = "/api/health";
+
+// ── Polling ──
+
+export function createPollingHealthSource(url = HEALTH_URL, intervalMs = 2000): HealthSource {
+  return {
+    connect(onSample, onError) {
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout>;
+      const controller = new AbortController();
+
+      async function poll() {
+        try {
+          const res = await fetch(url, { signal: controller.signal });
+          if (!res.ok) throw new Error(`Health API error: ${res.status}`);
+          const sample: HealthSample = await res.json();
+          if (stopped) return;
+          onSample(sample);
+          timer = setTimeout(poll, intervalMs);
+        } catch (err) {
+          if (!stopped) onError(err);
+        }
+      }
+      poll();
+
+      return () => {
+        stopped = true;
+        clearTimeout(timer);
+        controller.abort();
+      };
+    },
+  };
+}
+
+// ── Server-Sent Events ──
+
+export function createEventStreamHealthSource(url = `${HEALTH_URL}/stream`): HealthSource {
+  return {
+    connect(onSample, onError) {
+      const events = new EventSource(url);
+      events.onmessage = (e) => {
+        try {
+          onSample(JSON.parse(e.data));
+        } catch (err) {
+          events.close();
+          onError(err);
+        }
+      };
+      events.onerror = () => {
+        // Close it, or EventSource retries on its own schedule
+        events.close();
+        onError(new Error("Health stream disconnected"));
+      };
+      return () => events.close();
+    },
+  };
+}
+
+// ── Mock ──
+
+export interface MockHealthOptions {
+  intervalMs?: number;
+  /** 0–1: chance per sample that the "connection" drops, to exercise reconnects */
+  dropRate?: number;
+}
+
+export function createMockHealthSource(options: MockHealthOptions = {}): HealthSource {
+  const { intervalMs = 2000, dropRate = 0.01 } = options;
+  // One simulator for the source's lifetime: a reconnect picks up
+  // where the values were, like a real host would be
+  const next = createHealthSimulator();
+  return {
+    connect(onSample, onError) {
+      onSample(next());
+      const timer = setInterval(() => {
+        if (Math.random() < dropRate) {
+          clearInterval(timer);
+          onError(new Error("Mock health connection dropped"));
+          return;
+        }
+        onSample(next());
+      }, intervalMs);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+function createDefaultHealthSource(): HealthSource {
+  switch (import.meta.env.VITE_HEALTH_SOURCE) {
+    case "poll": return createPollingHealthSource();
+    case "sse":  return createEventStreamHealthSource();
+    default:     return createMockHealthSource();
+  }
+}
+
+export const healthSource = createDefaultHealthSource();
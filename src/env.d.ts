@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Backend for the Team Members table: "rest" (default) | "fixture" | "memory" */
+  readonly VITE_MEMBERS_SOURCE?: string;
+  /** Notification feed: "mock" (default in dev) | "none" (default in builds) */
+  readonly VITE_NOTIFICATIONS_SOURCE?: string;
+  /** Daily metrics for the stat cards and revenue chart: "memory" (default) | "rest" */
+  readonly VITE_METRICS_SOURCE?: string;
+  /** System Health feed: "mock" (default) | "poll" | "sse" */
+  readonly VITE_HEALTH_SOURCE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
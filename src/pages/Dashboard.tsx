@@ -1,56 +1,114 @@
+import { createMemo } from "solid-js";
 import StatCard from "../components/StatCard";
 import ActivityList from "../components/ActivityList";
 import DataTable from "../components/DataTable";
 import ProgressMetrics from "../components/ProgressMetrics";
+import RevenuePanel from "../components/RevenuePanel";
+import Segmented from "../components/Segmented";
+import { useDensity } from "~/stores/density";
+import { useFormat } from "~/stores/locale";
+import { createDashboardStats, dailyTrends, dashboardPeriods, periodInfo, usePeriodParam } from "~/stores/dashboardStats";
 
 export default function Dashboard() {
+  const density = useDensity();
+  const format = useFormat();
+
+  // ── Stat cards ──
+  // Every card reads the same stats resource; switching the period
+  // refetches once and all four update together.
+  const [period, setPeriod] = usePeriodParam();
+  const { stats, loading, error, refetch } = createDashboardStats(period);
+  const comparison = () => periodInfo(period()).comparison;
+  const trends = createMemo(() => dailyTrends(stats()?.days ?? []));
+  // Days are UTC calendar days, so they're labelled in UTC too
+  const dayLabels = createMemo(() =>
+    (stats()?.days ?? []).map((row) =>
+      format().date(new Date(row.day), { month: "short", day: "numeric", timeZone: "UTC" })
+    )
+  );
+
+  // Shared by the four cards
+  const cardState = {
+    get comparison() { return comparison(); },
+    get loading() { return loading(); },
+    get error() { return error(); },
+    get trendLabels() { return dayLabels(); },
+    onRetry: () => refetch(),
+  };
+
   return (
     <div class="space-y-6">
-      <div>
-        <h1 class="text-2xl font-bold">Dashboard</h1>
-        <p class="text-sm text-gray-500 mt-1">
-          Welcome back! Here's what's happening today.
-        </p>
+      <div class="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 class="text-2xl font-bold">Dashboard</h1>
+          <p class="text-sm text-fg-muted mt-1">
+            Welcome back! Here's what's happening today.
+          </p>
+        </div>
+        <Segmented
+          value={period()}
+          options={dashboardPeriods}
+          onChange={setPeriod}
+          aria-label="Stats period"
+        />
       </div>
 
       {/* Stat Cards */}
-      <div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div class={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 ${density().grid}`}>
         <StatCard
           title="Total Revenue"
-          value="$48,250"
-          change="12.5%"
-          changeType="up"
           icon="💰"
-          tooltip="Revenue from all sources this month"
+          tooltip="Revenue from all sources in this period"
+          current={stats()?.revenue.current}
+          previous={stats()?.revenue.previous}
+          trend={trends().revenue}
+          format="currency"
+          {...cardState}
         />
         <StatCard
           title="Active Users"
-          value="2,340"
-          change="8.1%"
-          changeType="up"
           icon="👥"
-          tooltip="Users active in the last 30 days"
+          tooltip="Average daily active users"
+          current={stats()?.activeUsers.current}
+          previous={stats()?.activeUsers.previous}
+          trend={trends().activeUsers}
+          format="compact"
+          {...cardState}
         />
         <StatCard
           title="Conversion Rate"
-          value="3.24%"
-          change="0.4%"
-          changeType="down"
           icon="🎯"
           tooltip="Visitor-to-customer conversion rate"
+          current={stats()?.conversionRate.current}
+          previous={stats()?.conversionRate.previous}
+          trend={trends().conversionRate}
+          format="percent"
+          {...cardState}
         />
         <StatCard
           title="Avg. Response"
-          value="245 ms"
-          change="18 ms"
-          changeType="up"
           icon="⚡"
-          tooltip="Average API response time"
+          tooltip="Average API response time, weighted by traffic"
+          current={stats()?.avgResponseMs.current}
+          previous={stats()?.avgResponseMs.previous}
+          trend={trends().avgResponseMs}
+          format="duration"
+          higherIsBetter={false}
+          {...cardState}
         />
       </div>
 
+      {/* Revenue chart — same stats, same period */}
+      <RevenuePanel
+        stats={stats()}
+        labels={dayLabels()}
+        loading={loading()}
+        error={error()}
+        onRetry={() => refetch()}
+      />
+
       {/* Middle row */}
-      <div class="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div class={`grid grid-cols-1 lg:grid-cols-3 ${density().grid}`}>
         <div class="lg:col-span-2">
           {/*
             Why DataTable is NOT wrapped in <Suspense>
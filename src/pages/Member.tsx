@@ -0,0 +1,40 @@
+import { Show } from "solid-js";
+import { A, useParams } from "@solidjs/router";
+import MemberDetail from "~/components/MemberDetail";
+import { useDensity } from "~/stores/density";
+
+export default function Member() {
+  // Route params are strings; anything that isn't a positive integer
+  // can't be an id, so it goes straight to the not-found state
+  const params = useParams();
+  const density = useDensity();
+  const id = () => {
+    const n = Number(params.id);
+    return Number.isInteger(n) && n > 0 ? n : null;
+  };
+
+  return (
+    <div class="space-y-6 max-w-2xl">
+      <div>
+        <A href="/" class="text-xs font-medium text-accent hover:underline">
+          ← Back to dashboard
+        </A>
+        <h1 class="text-2xl font-bold mt-2">Team Member</h1>
+      </div>
+
+      <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
+        <Show
+          when={id()}
+          fallback={
+            <div class="py-8 text-center text-sm">
+              <p class="font-medium">Member not found</p>
+              <p class="text-xs text-fg-subtle mt-1">"{params.id}" is not a valid member id.</p>
+            </div>
+          }
+        >
+          {(memberId) => <MemberDetail id={memberId()} />}
+        </Show>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,59 @@
-import { createSignal } from "solid-js";
+import { For, Show, createMemo, createSignal, onCleanup } from "solid-js";
+import { useBeforeLeave } from "@solidjs/router";
 import { Separator } from "@kobalte/core/separator";
 import { Button } from "@kobalte/core/button";
 import { ToggleButton } from "@kobalte/core/toggle-button";
-import { useSettings } from "~/stores/settings";
+import { unwrap } from "solid-js/store";
+import { validateProfileField } from "~/stores/settings";
+import { createSettingsDraft } from "~/stores/settingsDraft";
+import { themePreferences } from "~/stores/theme";
+import { DensityProvider, densities, useDensity } from "~/stores/density";
+import { createFormatters, localeOptions, timeZoneOptions } from "~/stores/locale";
+import { createAvatar } from "~/data/avatar";
+import Avatar from "~/components/Avatar";
+import { exportSettings, parseSettingsImport, type SettingsImport } from "~/stores/settingsTransfer";
+import SettingsImportPreview from "~/components/SettingsImportPreview";
+import Segmented from "~/components/Segmented";
+import NotificationMatrix from "~/components/NotificationMatrix";
+import {
+  digestFrequencies,
+  notificationCategories,
+  parseTime,
+  type NotificationCategory,
+  type NotificationChannel,
+} from "~/stores/notificationPrefs";
+import { useNotifications } from "~/stores/notifications";
+
+const UNSAVED_MESSAGE = "You have unsaved settings. Leave and discard them?";
 
 function SettingRow(props: {
   title: string;
   description: string;
+  /** Draft differs from the saved value */
+  dirty?: boolean;
+  /** Validation message; blocks Save */
+  error?: string | null;
+  /** Control goes below the title (wide controls like a table) */
+  stacked?: boolean;
   children: any;
 }) {
+  const density = useDensity();
   return (
-    <div class="flex items-center justify-between py-4">
+    <div
+      class={`flex ${props.stacked ? "flex-col gap-3" : "items-center justify-between"} ${density().row}`}
+    >
       <div>
-        <p class="text-sm font-medium">{props.title}</p>
-        <p class="text-xs text-gray-400 mt-0.5">{props.description}</p>
+        <p class="text-sm font-medium flex items-center gap-1.5">
+          {props.title}
+          <Show when={props.dirty}>
+            <span class="w-1.5 h-1.5 rounded-full bg-amber-500" aria-hidden />
+            <span class="text-[11px] font-normal text-amber-600">Modified</span>
+          </Show>
+        </p>
+        <p class="text-xs text-fg-subtle mt-0.5">{props.description}</p>
+        <Show when={props.error}>
+          <p class="text-xs text-red-600 mt-0.5">{props.error}</p>
+        </Show>
       </div>
       {props.children}
     </div>
@@ -26,7 +66,7 @@ function Toggle(props: { pressed: boolean; onToggle: () => void }) {
       pressed={props.pressed}
       onChange={props.onToggle}
       class={`w-12 h-7 rounded-full relative transition-colors ${
-        props.pressed ? "bg-indigo-600" : "bg-gray-300"
+        props.pressed ? "bg-accent" : "bg-surface-strong"
       }`}
     >
       <span
@@ -38,6 +78,17 @@ function Toggle(props: { pressed: boolean; onToggle: () => void }) {
   );
 }
 
+function SettingsCard(props: { title: string; children: any }) {
+  const density = useDensity();
+  return (
+    <div class={`bg-surface rounded-xl shadow-sm border border-line ${density().card}`}>
+      <h3 class="text-base font-semibold mb-2">{props.title}</h3>
+      <Separator class="kb-separator" />
+      {props.children}
+    </div>
+  );
+}
+
 export default function Settings() {
   // ── Consuming the store ──
   // `settings` is the reactive Proxy (the "getter" side of createStore).
@@ -49,117 +100,494 @@ export default function Settings() {
   //   const [compactView, setCompactView] = createSignal(false);
   //
   // AFTER (one store, nested, shared via Context):
-  //   settings.appearance.darkMode      ← reads are Proxy-tracked
-  //   actions.toggleDarkMode()           ← calls setState("appearance", "darkMode", prev => !prev)
-  const [settings, actions] = useSettings();
-  const [saved, setSaved] = createSignal(false);
+  //   settings.profile.name             ← reads are Proxy-tracked
+  //   actions.setProfileName(name)       ← calls setState("profile", "name", name)
+  //
+  // This page edits a DRAFT of that store (see stores/settingsDraft):
+  // the toggles below change nothing app-wide until "Save Changes".
+  const {
+    draft: settings,
+    actions,
+    history,
+    isFieldDirty,
+    isDirty,
+    conflicts,
+    resolveConflicts,
+    save,
+    discard,
+    replace,
+  } = createSettingsDraft();
+  const [saveResult, setSaveResult] = createSignal<"saved" | "failed" | null>(null);
+
+  // ── Profile ──
+  const validatedFields = ["email", "timeZone", "locale"] as const;
+  const fieldError = (field: (typeof validatedFields)[number]) =>
+    validateProfileField(field, settings.profile[field]);
+  const hasErrors = () =>
+    validatedFields.some((field) => fieldError(field) !== null) || quietHoursError() !== null;
+
+  // "Browser default" options show what the browser resolves to
+  const browserFormat = createFormatters("", "");
+  const timeZones = timeZoneOptions();
+  // A sample of the chosen locale + zone, so the choice means something
+  const formatPreview = createMemo(() => {
+    const format = createFormatters(settings.profile.locale, settings.profile.timeZone);
+    return `${format.date(new Date(), { dateStyle: "medium", timeStyle: "short" })} · ${format.number(1234567.89)}`;
+  });
+
+  // ── Notifications ──
+  // Quiet hours are read on the profile's clock — the draft's, so a
+  // zone change shows here before it's saved
+  const quietHoursZone = () => createFormatters("", settings.profile.timeZone).timeZone;
+  const notifications = useNotifications();
+
+  // Ticking a push box is the click the browser's permission prompt needs
+  function handleChannel(category: NotificationCategory, channel: NotificationChannel, on: boolean) {
+    actions.setChannel(category, channel, on);
+    if (channel === "push" && on) notifications.requestPushPermission();
+  }
+
+  const pushNotice = () => {
+    const anyPush = notificationCategories.some((c) => settings.notifications.channels[c.value].push);
+    if (!anyPush) return null;
+    switch (notifications.permission()) {
+      case "denied": return "Notifications are blocked for this site — allow them in the browser to get push";
+      case "unsupported": return "This browser can't show push notifications";
+      default: return null;
+    }
+  };
+
+  const quietHoursError = () => {
+    const { enabled, start, end } = settings.notifications.quietHours;
+    if (!enabled) return null;
+    if (parseTime(start) === null || parseTime(end) === null) return "Enter a start and end time";
+    return start === end ? "Start and end can't be the same" : null;
+  };
+
+  const [avatarError, setAvatarError] = createSignal<string | null>(null);
+
+  async function handleAvatarFile(e: Event & { currentTarget: HTMLInputElement }) {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    input.value = "";
+    if (!file) return;
+    setAvatarError(null);
+    try {
+      actions.setAvatar(await createAvatar(file));
+    } catch (err) {
+      setAvatarError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // A second save restarts the 2s message instead of cutting it short
+  let saveResultTimer: ReturnType<typeof setTimeout> | undefined;
+  onCleanup(() => clearTimeout(saveResultTimer));
 
   function handleSave() {
-    setSaved(true);
-    setTimeout(() => setSaved(false), 2000);
+    if (hasErrors() || conflicts().length > 0) return;
+    setSaveResult(save() ? "saved" : "failed");
+    clearTimeout(saveResultTimer);
+    saveResultTimer = setTimeout(() => setSaveResult(null), 2000);
+  }
+
+  // ── Import / export ──
+  // Both work on the draft: export downloads what's on screen, and an
+  // applied import lands in the draft for review before Save.
+  const [pendingImport, setPendingImport] = createSignal<{ fileName: string; result: SettingsImport } | null>(null);
+  const [importError, setImportError] = createSignal<string | null>(null);
+
+  async function handleImportFile(e: Event & { currentTarget: HTMLInputElement }) {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    input.value = ""; // picking the same file again should re-trigger change
+    if (!file) return;
+    setImportError(null);
+    setPendingImport(null);
+    try {
+      const result = parseSettingsImport(await file.text(), structuredClone(unwrap(settings)));
+      setPendingImport({ fileName: file.name, result });
+    } catch (err) {
+      setImportError(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
   }
 
+  function applyImport() {
+    const pending = pendingImport();
+    if (!pending) return;
+    replace(pending.result.settings);
+    setPendingImport(null);
+  }
+
+  // ── Undo / redo shortcuts ──
+  // Ctrl+Z / Ctrl+Shift+Z (⌘ on macOS), plus Ctrl+Y for redo. Text
+  // fields keep their own undo while focused, and with nothing to undo
+  // or redo the key goes to the browser as usual.
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || target.closest("input, textarea, select")) return;
+    const key = e.key.toLowerCase();
+    if (key !== "z" && key !== "y") return;
+    const redo = key === "y" || e.shiftKey;
+    if (redo ? !history.canRedo() : !history.canUndo()) return;
+    e.preventDefault();
+    if (redo) history.redo();
+    else history.undo();
+  };
+  document.addEventListener("keydown", onKeyDown);
+  onCleanup(() => document.removeEventListener("keydown", onKeyDown));
+
+  // ── Unsaved-changes guard ──
+  // useBeforeLeave runs before any router navigation away from this
+  // page. preventDefault() holds it; retry(true) resumes it, skipping
+  // the guard. The confirm runs after a tick so the navigation that
+  // triggered it has finished settling first.
+  useBeforeLeave((e) => {
+    if (!isDirty() || e.defaultPrevented) return;
+    e.preventDefault();
+    setTimeout(() => {
+      if (window.confirm(UNSAVED_MESSAGE)) e.retry(true);
+    }, 100);
+  });
+
+  // Reloads and closing the tab bypass the router, so they get the
+  // browser's own prompt instead
+  const onBeforeUnload = (e: BeforeUnloadEvent) => {
+    if (isDirty()) e.preventDefault();
+  };
+  window.addEventListener("beforeunload", onBeforeUnload);
+  onCleanup(() => window.removeEventListener("beforeunload", onBeforeUnload));
+
+  // The draft's density, not the saved one: picking "Compact" previews
+  // here right away, and the rest of the app follows on Save
   return (
-    <div class="space-y-6 max-w-2xl">
-      <div>
-        <h1 class="text-2xl font-bold">Settings</h1>
-        <p class="text-sm text-gray-500 mt-1">
-          Manage your dashboard preferences. Changes are reflected in the
-          Header in real-time (shared store).
-        </p>
-      </div>
+    <DensityProvider density={settings.appearance.density}>
+      <div class="space-y-6 max-w-2xl">
+        <div class="flex items-start justify-between gap-4">
+          <div>
+            <h1 class="text-2xl font-bold">Settings</h1>
+            <p class="text-sm text-fg-muted mt-1">
+              Manage your dashboard preferences. Saved changes apply across the
+              app (shared store) and are kept in this browser.
+            </p>
+          </div>
+          <div class="flex gap-1 shrink-0" role="toolbar" aria-label="History">
+            <Button
+              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              disabled={!history.canUndo()}
+              onClick={history.undo}
+              title={history.canUndo() ? `Undo ${history.undoLabel()?.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+            >
+              ↶ Undo
+            </Button>
+            <Button
+              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              disabled={!history.canRedo()}
+              onClick={history.redo}
+              title={history.canRedo() ? `Redo ${history.redoLabel()?.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+            >
+              ↷ Redo
+            </Button>
+          </div>
+        </div>
 
-      {/* ── Appearance ── */}
-      <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
-        <h3 class="text-base font-semibold mb-2">Appearance</h3>
-        <Separator class="kb-separator" />
-
-        <SettingRow
-          title="Dark Mode"
-          description="Switch between light and dark theme"
-        >
-          {/* settings.appearance.darkMode → Proxy read → fine-grained subscription */}
-          <Toggle
-            pressed={settings.appearance.darkMode}
-            onToggle={actions.toggleDarkMode}
-          />
-        </SettingRow>
-
-        <SettingRow
-          title="Compact View"
-          description="Reduce spacing in lists and tables"
-        >
-          <Toggle
-            pressed={settings.appearance.compactView}
-            onToggle={actions.toggleCompactView}
-          />
-        </SettingRow>
-      </div>
+        {/* ── Appearance ── */}
+        <SettingsCard title="Appearance">
+          <SettingRow
+            title="Theme"
+            description="System follows your operating system's light or dark setting"
+            dirty={isFieldDirty("appearance", "theme")}
+          >
+            {/* settings.appearance.theme → Proxy read → fine-grained subscription */}
+            <Segmented value={settings.appearance.theme} options={themePreferences} onChange={actions.setTheme} />
+          </SettingRow>
 
-      {/* ── Notifications ── */}
-      <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
-        <h3 class="text-base font-semibold mb-2">Notifications</h3>
-        <Separator class="kb-separator" />
-
-        <SettingRow
-          title="Email Notifications"
-          description="Receive weekly digest and alerts"
-        >
-          <Toggle
-            pressed={settings.notifications.email}
-            onToggle={actions.toggleEmailNotifications}
-          />
-        </SettingRow>
-
-        <SettingRow
-          title="Push Notifications"
-          description="Browser push notifications for urgent alerts"
-        >
-          <Toggle
-            pressed={settings.notifications.push}
-            onToggle={actions.togglePushNotifications}
-          />
-        </SettingRow>
-      </div>
+          <SettingRow
+            title="Density"
+            description="Spacing in tables, lists and cards — previewed on this page"
+            dirty={isFieldDirty("appearance", "density")}
+          >
+            <Segmented value={settings.appearance.density} options={densities} onChange={actions.setDensity} />
+          </SettingRow>
+        </SettingsCard>
 
-      {/* ── Profile ── */}
-      <div class="bg-white rounded-xl shadow-sm border border-gray-100 p-5">
-        <h3 class="text-base font-semibold mb-2">Profile</h3>
-        <Separator class="kb-separator" />
-
-        <SettingRow
-          title="Display Name"
-          description="Shown in the header avatar"
-        >
-          <input
-            type="text"
-            value={settings.profile.name}
-            onInput={(e) => actions.setProfileName(e.currentTarget.value)}
-            class="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500 w-48"
-          />
-        </SettingRow>
-      </div>
+        {/* ── Notifications ── */}
+        <SettingsCard title="Notifications">
+          <SettingRow
+            title="Channels"
+            description="Where each kind of notification is delivered. Push is for urgent items only."
+            dirty={isFieldDirty("notifications", "channels")}
+            stacked
+          >
+            <Show when={pushNotice()}>
+              <p class="text-xs text-amber-600">{pushNotice()}</p>
+            </Show>
+            <NotificationMatrix
+              channels={settings.notifications.channels}
+              onChange={handleChannel}
+              disabled={(category) => category === "digest" && settings.notifications.digest === "off"}
+            />
+          </SettingRow>
+
+          <SettingRow
+            title="Digest"
+            description="How often the summary is sent"
+            dirty={isFieldDirty("notifications", "digest")}
+          >
+            <Segmented
+              value={settings.notifications.digest}
+              options={digestFrequencies}
+              onChange={actions.setDigestFrequency}
+            />
+          </SettingRow>
 
-      {/* ── Actions ── */}
-      <div class="flex items-center gap-3">
-        <Button
-          class="px-5 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors cursor-pointer"
-          onClick={handleSave}
-        >
-          Save Changes
-        </Button>
-        <Button
-          class="px-5 py-2 bg-gray-200 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-300 transition-colors cursor-pointer"
-          onClick={actions.resetToDefaults}
-        >
-          Reset to Defaults
-        </Button>
-        {saved() && (
-          <span class="text-sm text-emerald-600 font-medium">
-            ✓ Settings saved!
-          </span>
-        )}
+          <SettingRow
+            title="Quiet Hours"
+            description={`Hold email and push in this window (${quietHoursZone()}); in-app still collects`}
+            dirty={isFieldDirty("notifications", "quietHours")}
+            error={quietHoursError()}
+          >
+            <div class="flex items-center gap-2">
+              <input
+                type="time"
+                value={settings.notifications.quietHours.start}
+                onChange={(e) => actions.setQuietHoursStart(e.currentTarget.value)}
+                disabled={!settings.notifications.quietHours.enabled}
+                aria-label="Quiet hours start"
+                class="text-sm border border-line-strong rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-40"
+              />
+              <span class="text-xs text-fg-subtle">to</span>
+              <input
+                type="time"
+                value={settings.notifications.quietHours.end}
+                onChange={(e) => actions.setQuietHoursEnd(e.currentTarget.value)}
+                disabled={!settings.notifications.quietHours.enabled}
+                aria-label="Quiet hours end"
+                class="text-sm border border-line-strong rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-accent disabled:opacity-40"
+              />
+              <Toggle pressed={settings.notifications.quietHours.enabled} onToggle={actions.toggleQuietHours} />
+            </div>
+          </SettingRow>
+        </SettingsCard>
+
+        {/* ── Profile ── */}
+        <SettingsCard title="Profile">
+          <SettingRow
+            title="Picture"
+            description="Cropped to a square and stored in this browser"
+            dirty={isFieldDirty("profile", "avatar")}
+            error={avatarError()}
+          >
+            <div class="flex items-center gap-3">
+              <Avatar name={settings.profile.name} src={settings.profile.avatar} class="w-12 h-12 text-base" />
+              <label class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer">
+                Upload…
+                <input type="file" accept="image/*" class="sr-only" onChange={handleAvatarFile} />
+              </label>
+              <Show when={settings.profile.avatar}>
+                <Button
+                  class="text-xs text-fg-muted hover:text-fg underline cursor-pointer"
+                  onClick={() => actions.setAvatar("")}
+                >
+                  Remove
+                </Button>
+              </Show>
+            </div>
+          </SettingRow>
+
+          <SettingRow
+            title="Display Name"
+            description="Shown in the header avatar"
+            dirty={isFieldDirty("profile", "name")}
+          >
+            <input
+              type="text"
+              value={settings.profile.name}
+              onInput={(e) => actions.setProfileName(e.currentTarget.value)}
+              class="text-sm border border-line-strong rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-accent w-48"
+            />
+          </SettingRow>
+
+          <SettingRow
+            title="Email"
+            description="Where email notifications are sent"
+            dirty={isFieldDirty("profile", "email")}
+            error={fieldError("email")}
+          >
+            <input
+              type="email"
+              value={settings.profile.email}
+              onInput={(e) => actions.setProfileEmail(e.currentTarget.value)}
+              placeholder="you@example.com"
+              aria-invalid={!!fieldError("email")}
+              class="text-sm border border-line-strong rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-accent w-48"
+            />
+          </SettingRow>
+
+          <SettingRow
+            title="Role"
+            description="Shown next to your name"
+            dirty={isFieldDirty("profile", "role")}
+          >
+            <input
+              type="text"
+              value={settings.profile.role}
+              onInput={(e) => actions.setProfileRole(e.currentTarget.value)}
+              class="text-sm border border-line-strong rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-accent w-48"
+            />
+          </SettingRow>
+
+          <SettingRow
+            title="Time Zone"
+            description="Dates and times across the dashboard"
+            dirty={isFieldDirty("profile", "timeZone")}
+            error={fieldError("timeZone")}
+          >
+            <select
+              value={settings.profile.timeZone}
+              onChange={(e) => actions.setTimeZone(e.currentTarget.value)}
+              class="text-sm border border-line-strong rounded-lg px-2 py-1.5 cursor-pointer w-48"
+            >
+              <option value="">Browser default ({browserFormat.timeZone})</option>
+              <For each={timeZones}>{(zone) => <option value={zone}>{zone.replace(/_/g, " ")}</option>}</For>
+            </select>
+          </SettingRow>
+
+          <SettingRow
+            title="Locale"
+            description={formatPreview()}
+            dirty={isFieldDirty("profile", "locale")}
+            error={fieldError("locale")}
+          >
+            <select
+              value={settings.profile.locale}
+              onChange={(e) => actions.setLocale(e.currentTarget.value)}
+              class="text-sm border border-line-strong rounded-lg px-2 py-1.5 cursor-pointer w-48"
+            >
+              <For each={localeOptions}>
+                {(option) => (
+                  <option value={option.value}>
+                    {option.value ? option.label : `${option.label} (${browserFormat.locale})`}
+                  </option>
+                )}
+              </For>
+            </select>
+          </SettingRow>
+        </SettingsCard>
+
+        {/* ── Import / export ── */}
+        <SettingsCard title="Import / Export">
+          <SettingRow
+            title="Settings file"
+            description="Copy these preferences to another machine as JSON"
+          >
+            <div class="flex gap-2">
+              <Button
+                class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
+                onClick={() => exportSettings(structuredClone(unwrap(settings)))}
+              >
+                Export
+              </Button>
+              <label class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer">
+                Import…
+                <input type="file" accept="application/json,.json" class="sr-only" onChange={handleImportFile} />
+              </label>
+            </div>
+          </SettingRow>
+
+          <Show when={importError()}>
+            <p class="text-xs text-red-600">{importError()}</p>
+          </Show>
+          <Show when={pendingImport()}>
+            {(pending) => (
+              <SettingsImportPreview
+                fileName={pending().fileName}
+                result={pending().result}
+                onApply={applyImport}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
+          </Show>
+        </SettingsCard>
+
+        {/* ── Changed in another tab while you edited ── */}
+        <Show when={conflicts().length > 0}>
+          <div role="alert" class="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <p class="font-medium">
+              {conflicts().length === 1 ? "A setting you edited was" : "Settings you edited were"} also changed in
+              another tab
+            </p>
+            <p class="mt-1 text-xs">
+              <For each={conflicts()}>
+                {(path, i) => (
+                  <>
+                    <code>{path}</code>
+                    {i() < conflicts().length - 1 ? ", " : ""}
+                  </>
+                )}
+              </For>
+              {" "}— choose which version to keep before saving.
+            </p>
+            <div class="mt-3 flex gap-2">
+              <Button
+                class="px-3 py-1.5 text-xs font-medium rounded-lg border border-amber-300 hover:bg-amber-100 cursor-pointer"
+                onClick={() => resolveConflicts("mine")}
+              >
+                Keep mine
+              </Button>
+              <Button
+                class="px-3 py-1.5 text-xs font-medium rounded-lg border border-amber-300 hover:bg-amber-100 cursor-pointer"
+                onClick={() => resolveConflicts("theirs")}
+              >
+                Use theirs
+              </Button>
+            </div>
+          </div>
+        </Show>
+
+        {/* ── Actions ── */}
+        <div class="flex items-center gap-3">
+          <Button
+            class="px-5 py-2 bg-accent text-on-accent text-sm font-medium rounded-lg hover:bg-accent-hover transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+            disabled={!isDirty() || hasErrors() || conflicts().length > 0}
+            onClick={handleSave}
+          >
+            Save Changes
+          </Button>
+          <Button
+            class="px-5 py-2 border border-line-strong text-fg text-sm font-medium rounded-lg hover:bg-surface-muted transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+            disabled={!isDirty()}
+            onClick={discard}
+          >
+            Discard
+          </Button>
+          <Button
+            class="px-5 py-2 bg-surface-strong text-fg text-sm font-medium rounded-lg hover:bg-surface-strong transition-colors cursor-pointer"
+            onClick={actions.resetToDefaults}
+          >
+            Reset to Defaults
+          </Button>
+          {isDirty() && !saveResult() && (
+            <span class="text-sm text-amber-600">
+              {hasErrors()
+                ? "Fix the highlighted fields to save"
+                : conflicts().length > 0
+                  ? "Resolve the changes from another tab to save"
+                  : "Unsaved changes"}
+            </span>
+          )}
+          {saveResult() === "saved" && (
+            <span class="text-sm text-emerald-600 font-medium">
+              ✓ Settings saved!
+            </span>
+          )}
+          {saveResult() === "failed" && (
+            <span class="text-sm text-red-600 font-medium">
+              Couldn't save — browser storage is unavailable
+            </span>
+          )}
+        </div>
       </div>
-    </div>
+    </DensityProvider>
   );
 }
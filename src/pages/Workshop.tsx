@@ -31,20 +31,20 @@ function WorkshopSection(props: WorkshopSectionProps) {
   return (
     <Collapsible open={open()} onOpenChange={setOpen}>
       <div
-        class={`bg-white rounded-xl shadow-sm border border-gray-100 p-5 transition-colors ${
-          open() ? "border-l-4 border-indigo-500" : ""
+        class={`bg-surface rounded-xl shadow-sm border border-line p-5 transition-colors ${
+          open() ? "border-l-4 border-accent" : ""
         }`}
       >
         <Collapsible.Trigger
-          class="w-full flex items-center justify-between gap-4 text-left hover:bg-gray-50 rounded-lg px-2 py-2 transition-colors"
+          class="w-full flex items-center justify-between gap-4 text-left hover:bg-surface-muted rounded-lg px-2 py-2 transition-colors"
         >
           <div>
-            <p class="text-xs text-gray-400 font-medium">Section {props.number}</p>
-            <h2 class="text-base font-semibold text-gray-900">{props.title}</h2>
-            <p class="text-xs text-gray-500 mt-0.5">{props.tagline}</p>
+            <p class="text-xs text-fg-subtle font-medium">Section {props.number}</p>
+            <h2 class="text-base font-semibold text-fg">{props.title}</h2>
+            <p class="text-xs text-fg-muted mt-0.5">{props.tagline}</p>
           </div>
           <span
-            class={`text-gray-400 transition-transform ${
+            class={`text-fg-subtle transition-transform ${
               open() ? "rotate-180" : "rotate-0"
             }`}
             aria-hidden
@@ -84,26 +84,26 @@ function MemosSection() {
       {/* createMemo caches derived state; like Vue computed() or React useMemo, it re-runs only when dependencies change. */}
       <div class="grid gap-4 sm:grid-cols-2">
         <div class="space-y-2">
-          <label class="text-sm font-medium text-gray-700">Type text</label>
+          <label class="text-sm font-medium text-fg">Type text</label>
           <input
             type="text"
             value={text()}
             onInput={(e) => setText(e.currentTarget.value)}
-            class="text-sm border border-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 w-full"
+            class="text-sm border border-line-strong rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-accent w-full"
             placeholder="solid is reactive"
           />
-          <p class="text-xs text-gray-400">Memo runs: {memoRuns()}</p>
+          <p class="text-xs text-fg-subtle">Memo runs: {memoRuns()}</p>
         </div>
-        <div class="bg-gray-50 rounded-lg p-3">
-          <p class="text-xs text-gray-500 font-medium mb-2">Character frequency</p>
+        <div class="bg-surface-muted rounded-lg p-3">
+          <p class="text-xs text-fg-muted font-medium mb-2">Character frequency</p>
           <Show
             when={frequency().length > 0}
-            fallback={<p class="text-xs text-gray-400">Type to generate counts.</p>}
+            fallback={<p class="text-xs text-fg-subtle">Type to generate counts.</p>}
           >
             <div class="space-y-1">
               <For each={frequency()}>
                 {(entry) => (
-                  <div class="flex items-center justify-between text-xs text-gray-600">
+                  <div class="flex items-center justify-between text-xs text-fg-muted">
                     <span class="font-medium">{entry.char}</span>
                     <span>{entry.count}</span>
                   </div>
@@ -147,7 +147,7 @@ function Timer(props: TimerProps) {
   });
 
   return (
-    <div class="text-sm text-gray-700">Ticks: {ticks()}</div>
+    <div class="text-sm text-fg">Ticks: {ticks()}</div>
   );
 }
 
@@ -163,25 +163,25 @@ function LifecycleSection() {
     <div class="space-y-4">
       {/* onMount runs once after first render; onCleanup runs when the reactive scope is disposed (unmount, Show/Switch removal). */}
       <button
-        class="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors cursor-pointer"
+        class="px-4 py-2 bg-accent text-on-accent text-sm font-medium rounded-lg hover:bg-accent-hover transition-colors cursor-pointer"
         onClick={() => setVisible((v) => !v)}
       >
         {visible() ? "Unmount Timer" : "Mount Timer"}
       </button>
 
       <Show when={visible()}>
-        <div class="bg-gray-50 rounded-lg p-3">
+        <div class="bg-surface-muted rounded-lg p-3">
           <Timer onLog={append} />
         </div>
       </Show>
 
-      <div class="bg-gray-50 rounded-lg p-3">
-        <p class="text-xs text-gray-500 font-medium mb-2">Lifecycle log</p>
+      <div class="bg-surface-muted rounded-lg p-3">
+        <p class="text-xs text-fg-muted font-medium mb-2">Lifecycle log</p>
         <Show
           when={log().length > 0}
-          fallback={<p class="text-xs text-gray-400">No events yet.</p>}
+          fallback={<p class="text-xs text-fg-subtle">No events yet.</p>}
         >
-          <ul class="text-xs text-gray-600 space-y-1">
+          <ul class="text-xs text-fg-muted space-y-1">
             <For each={log()}>
               {(entry) => <li>{entry}</li>}
             </For>
@@ -218,10 +218,10 @@ function BatchUntrackSection() {
       {/* batch() defers notifications until all writes finish; untrack() reads without subscribing to updates. */}
       <div class="grid gap-4 sm:grid-cols-2">
         <div class="space-y-3">
-          <p class="text-sm font-medium text-gray-700">Batch demo</p>
+          <p class="text-sm font-medium text-fg">Batch demo</p>
           <div class="flex flex-wrap gap-2">
             <button
-              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
               onClick={() => {
                 setFirstName((n) => n + 1);
                 setLastName((n) => n + 1);
@@ -230,7 +230,7 @@ function BatchUntrackSection() {
               Increment Unbatched
             </button>
             <button
-              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-indigo-200 text-indigo-600 hover:bg-indigo-50 cursor-pointer"
+              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-accent-soft text-accent hover:bg-accent-soft cursor-pointer"
               onClick={() =>
                 batch(() => {
                   setFirstName((n) => n + 1);
@@ -241,17 +241,17 @@ function BatchUntrackSection() {
               Increment Batched
             </button>
           </div>
-          <p class="text-xs text-gray-500">
+          <p class="text-xs text-fg-muted">
             First: {firstName()} · Last: {lastName()}
           </p>
-          <p class="text-xs text-gray-400">Effect runs: {effectRuns()}</p>
+          <p class="text-xs text-fg-subtle">Effect runs: {effectRuns()}</p>
         </div>
 
         <div class="space-y-3">
-          <p class="text-sm font-medium text-gray-700">Untrack demo</p>
+          <p class="text-sm font-medium text-fg">Untrack demo</p>
           <div class="flex flex-wrap gap-2">
             <button
-              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+              class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
               onClick={() => setCount((n) => n + 1)}
             >
               Increment Count
@@ -263,10 +263,10 @@ function BatchUntrackSection() {
               Increment Ignored
             </button>
           </div>
-          <p class="text-xs text-gray-500">
+          <p class="text-xs text-fg-muted">
             Count: {count()} · Ignored: {ignored()}
           </p>
-          <p class="text-xs text-gray-400">Effect runs: {untrackRuns()}</p>
+          <p class="text-xs text-fg-subtle">Effect runs: {untrackRuns()}</p>
         </div>
       </div>
     </div>
@@ -303,13 +303,13 @@ function ErrorHandlingSection() {
       {/* Switch/Match is Solid's JSX pattern matching; ErrorBoundary catches render-time errors and exposes reset. */}
       <div class="flex flex-wrap gap-2">
         <button
-          class="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+          class="px-3 py-1.5 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
           onClick={() => setState({ status: "idle" })}
         >
           Idle
         </button>
         <button
-          class="px-3 py-1.5 text-xs font-medium rounded-lg border border-indigo-200 text-indigo-600 hover:bg-indigo-50 cursor-pointer"
+          class="px-3 py-1.5 text-xs font-medium rounded-lg border border-accent-soft text-accent hover:bg-accent-soft cursor-pointer"
           onClick={() => setState({ status: "loading" })}
         >
           Loading
@@ -328,13 +328,13 @@ function ErrorHandlingSection() {
         </button>
       </div>
 
-      <div class="bg-gray-50 rounded-lg p-3">
+      <div class="bg-surface-muted rounded-lg p-3">
         <Switch>
           <Match when={state().status === "idle"}>
-            <p class="text-sm text-gray-600">Waiting for input.</p>
+            <p class="text-sm text-fg-muted">Waiting for input.</p>
           </Match>
           <Match when={state().status === "loading"}>
-            <p class="text-sm text-indigo-600">Loading data...</p>
+            <p class="text-sm text-accent">Loading data...</p>
           </Match>
           <Match when={state().status === "error"}>
             {(() => {
@@ -373,7 +373,7 @@ function ErrorHandlingSection() {
           </div>
         )}
       >
-        <div class="bg-gray-50 rounded-lg p-3">
+        <div class="bg-surface-muted rounded-lg p-3">
           <Thrower
             shouldThrow={shouldThrow()}
             onThrow={() => setShouldThrow(true)}
@@ -396,7 +396,7 @@ function List<T>(props: ListProps<T>) {
 
   return (
     <div {...others}>
-      <p class="text-xs text-gray-500 font-medium mb-2">{local.label}</p>
+      <p class="text-xs text-fg-muted font-medium mb-2">{local.label}</p>
       <div class={local.class}>
         <For each={local.items}>{(item) => local.renderItem(item)}</For>
       </div>
@@ -421,9 +421,9 @@ function AdvancedPropsSection() {
           label="People"
           class="space-y-1"
           renderItem={(person) => (
-            <div class="flex items-center justify-between text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-2">
+            <div class="flex items-center justify-between text-sm text-fg bg-surface-muted rounded-lg px-3 py-2">
               <span class="font-medium">{person.name}</span>
-              <span class="text-xs text-gray-500">{person.age} yrs</span>
+              <span class="text-xs text-fg-muted">{person.age} yrs</span>
             </div>
           )}
         />
@@ -432,7 +432,7 @@ function AdvancedPropsSection() {
           label="Vocabulary"
           class="space-y-1"
           renderItem={(word) => (
-            <div class="text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-2">
+            <div class="text-sm text-fg bg-surface-muted rounded-lg px-3 py-2">
               {word}
             </div>
           )}
@@ -450,13 +450,13 @@ function PortalModal(props: { onClose: () => void }) {
           class="absolute inset-0 bg-black/40"
           onClick={props.onClose}
         />
-        <div class="relative bg-white rounded-xl shadow-xl border border-gray-100 p-6 w-[90%] max-w-sm">
-          <p class="text-sm font-semibold text-gray-900">Portal Modal</p>
-          <p class="text-xs text-gray-500 mt-1">
+        <div class="relative bg-surface rounded-xl shadow-xl border border-line p-6 w-[90%] max-w-sm">
+          <p class="text-sm font-semibold text-fg">Portal Modal</p>
+          <p class="text-xs text-fg-muted mt-1">
             This modal renders outside the card layout.
           </p>
           <button
-            class="mt-4 px-3 py-1.5 text-xs font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 cursor-pointer"
+            class="mt-4 px-3 py-1.5 text-xs font-medium rounded-lg bg-accent text-on-accent hover:bg-accent-hover cursor-pointer"
             onClick={props.onClose}
           >
             Close
@@ -469,7 +469,7 @@ function PortalModal(props: { onClose: () => void }) {
 
 function GreetingCard() {
   return (
-    <div class="text-sm text-gray-700 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+    <div class="text-sm text-fg bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
       Hello from the greeting component!
     </div>
   );
@@ -480,14 +480,14 @@ function MiniCounter() {
   return (
     <div class="flex items-center gap-2">
       <button
-        class="px-2.5 py-1 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+        class="px-2.5 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
         onClick={() => setValue((v) => v - 1)}
       >
         -
       </button>
-      <span class="text-sm text-gray-700">{value()}</span>
+      <span class="text-sm text-fg">{value()}</span>
       <button
-        class="px-2.5 py-1 text-xs font-medium rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer"
+        class="px-2.5 py-1 text-xs font-medium rounded-lg border border-line-strong hover:bg-surface-muted cursor-pointer"
         onClick={() => setValue((v) => v + 1)}
       >
         +
@@ -504,9 +504,9 @@ function ColorPicker() {
         type="color"
         value={color()}
         onInput={(e) => setColor(e.currentTarget.value)}
-        class="h-8 w-12 rounded border border-gray-200"
+        class="h-8 w-12 rounded border border-line-strong"
       />
-      <div class="text-xs text-gray-500">{color()}</div>
+      <div class="text-xs text-fg-muted">{color()}</div>
     </div>
   );
 }
@@ -528,7 +528,7 @@ function PortalDynamicSection() {
       {/* Portal renders into a different DOM node; Dynamic swaps component references at runtime. */}
       <div class="flex flex-wrap gap-2">
         <button
-          class="px-3 py-1.5 text-xs font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 cursor-pointer"
+          class="px-3 py-1.5 text-xs font-medium rounded-lg bg-accent text-on-accent hover:bg-accent-hover cursor-pointer"
           onClick={() => setShowModal(true)}
         >
           Show Modal
@@ -540,9 +540,9 @@ function PortalDynamicSection() {
       </Show>
 
       <div class="space-y-3">
-        <p class="text-sm font-medium text-gray-700">Dynamic component</p>
+        <p class="text-sm font-medium text-fg">Dynamic component</p>
         <div class="flex flex-wrap gap-2">
-          <label class="text-xs text-gray-600 flex items-center gap-1">
+          <label class="text-xs text-fg-muted flex items-center gap-1">
             <input
               type="radio"
               name="dynamic"
@@ -551,7 +551,7 @@ function PortalDynamicSection() {
             />
             Greeting
           </label>
-          <label class="text-xs text-gray-600 flex items-center gap-1">
+          <label class="text-xs text-fg-muted flex items-center gap-1">
             <input
               type="radio"
               name="dynamic"
@@ -560,7 +560,7 @@ function PortalDynamicSection() {
             />
             Counter
           </label>
-          <label class="text-xs text-gray-600 flex items-center gap-1">
+          <label class="text-xs text-fg-muted flex items-center gap-1">
             <input
               type="radio"
               name="dynamic"
@@ -570,7 +570,7 @@ function PortalDynamicSection() {
             Color picker
           </label>
         </div>
-        <div class="bg-gray-50 rounded-lg p-3">
+        <div class="bg-surface-muted rounded-lg p-3">
           <Dynamic component={selected()} />
         </div>
       </div>
@@ -583,7 +583,7 @@ export default function Workshop() {
     <div class="space-y-6">
       <div>
         <h1 class="text-2xl font-bold">Workshop</h1>
-        <p class="text-sm text-gray-500 mt-1">
+        <p class="text-sm text-fg-muted mt-1">
           Interactive concept explorer — each section is a self-contained lesson.
         </p>
       </div>
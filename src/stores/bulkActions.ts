@@ -0,0 +1,63 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Bulk action registry
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The bulk-action bar doesn't hard-code its buttons. It renders
+ *  whatever is in a registry, so any page can contribute operations:
+ *
+ *    // in some page component
+ *    useBulkAction(memberBulkActions, {
+ *      id: "invite",
+ *      label: "Re-send invite",
+ *      run: ({ rows }) => api.invite(rows.map((r) => r.id)),
+ *    });
+ *
+ *  `useBulkAction` registers on mount and unregisters via onCleanup,
+ *  so an action lives exactly as long as the component that added it.
+ *  The registry is a signal, so the bar updates as actions come and go.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createSignal, onCleanup, onMount } from "solid-js";
+import type { DataSource } from "~/data/source";
+
+export interface BulkActionContext<Row> {
+  rows: Row[];
+  source: DataSource<Row>;
+  /** The option picked from `choices`, if the action has any */
+  choice?: string;
+  clearSelection: () => void;
+  refetch: () => void;
+}
+
+export interface BulkAction<Row> {
+  id: string;
+  label: string;
+  /** Renders the action as a picker instead of a button */
+  choices?: readonly string[];
+  /** Asked via confirm() before running */
+  confirm?: (rows: Row[]) => string;
+  tone?: "default" | "danger";
+  run: (ctx: BulkActionContext<Row>) => void | Promise<void>;
+}
+
+export function createBulkActionRegistry<Row>(initial: BulkAction<Row>[] = []) {
+  const [actions, setActions] = createSignal<BulkAction<Row>[]>(initial);
+
+  return {
+    actions,
+
+    /** Adds (or replaces, by id) an action. Returns an unregister function. */
+    register(action: BulkAction<Row>): () => void {
+      setActions((prev) => [...prev.filter((a) => a.id !== action.id), action]);
+      return () => setActions((prev) => prev.filter((a) => a !== action));
+    },
+  };
+}
+
+export type BulkActionRegistry<Row> = ReturnType<typeof createBulkActionRegistry<Row>>;
+
+/** Registers an action for the lifetime of the calling component. */
+export function useBulkAction<Row>(registry: BulkActionRegistry<Row>, action: BulkAction<Row>) {
+  onMount(() => onCleanup(registry.register(action)));
+}
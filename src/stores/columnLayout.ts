@@ -0,0 +1,181 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Column layout — declarative columns + a persisted layout
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  A table describes its columns ONCE, as data:
+ *
+ *    { id: "email", header: "Email", sortKey: "email", width: 220,
+ *      cell: (row) => row.email }
+ *
+ *  and the header, the data rows and the padding rows are all rendered
+ *  by looping over the visible columns. Adding a column is one entry.
+ *
+ *  What the user changes — which columns are shown, their order and
+ *  their widths — is a separate, serializable `ColumnLayout`:
+ *
+ *    { order: ["name", "email", …], hidden: ["id"], widths: { name: 260 } }
+ *
+ *  It lives in localStorage under a key per table (not per display
+ *  name, which the user can edit). Stored layouts are
+ *  reconciled against the current definitions on load: ids that no
+ *  longer exist are dropped, new columns are appended.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createEffect, on, type Accessor, type JSX } from "solid-js";
+import { createStore, reconcile } from "solid-js/store";
+import type { SortState } from "~/data/source";
+
+export interface ColumnDef<Row, Field extends string = never> {
+  id: string;
+  header: string;
+  /** Row key to sort by — omit for unsortable columns */
+  sortKey?: SortState<Row>["key"];
+  align?: "left" | "right";
+  /** Default width in px */
+  width: number;
+  minWidth?: number;
+  /** Columns that can't be hidden (e.g. the row's name) */
+  required?: boolean;
+  /** Hidden until the user turns it on */
+  defaultHidden?: boolean;
+  /** Makes the cell inline-editable through this field */
+  edit?: { field: Field; type?: "text" | "email"; options?: readonly string[] };
+  cell: (row: Row) => JSX.Element;
+}
+
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+}
+
+const DEFAULT_MIN_WIDTH = 60;
+
+// What the layout logic needs from a definition
+type ColumnMeta = Pick<ColumnDef<unknown>, "id" | "required" | "defaultHidden">;
+
+function defaultLayout(columns: readonly ColumnMeta[]): ColumnLayout {
+  return {
+    order: columns.map((c) => c.id),
+    hidden: columns.filter((c) => c.defaultHidden).map((c) => c.id),
+    widths: {},
+  };
+}
+
+// Stored JSON is user-controlled (and may predate a column change), so
+// every field is checked and anything unknown falls back to the default
+function normalize(raw: unknown, columns: readonly ColumnMeta[]): ColumnLayout {
+  const fallback = defaultLayout(columns);
+  if (!raw || typeof raw !== "object") return fallback;
+  const value = raw as Partial<Record<keyof ColumnLayout, unknown>>;
+  const ids = new Set(columns.map((c) => c.id));
+  const known = (list: unknown) =>
+    Array.isArray(list) ? list.filter((id): id is string => typeof id === "string" && ids.has(id)) : null;
+
+  const stored = known(value.order) ?? [];
+  const order = [...new Set(stored), ...fallback.order.filter((id) => !stored.includes(id))];
+  const hidden = (known(value.hidden) ?? fallback.hidden).filter(
+    (id) => !columns.find((c) => c.id === id)?.required
+  );
+
+  const widths: Record<string, number> = {};
+  if (value.widths && typeof value.widths === "object") {
+    for (const [id, width] of Object.entries(value.widths)) {
+      if (ids.has(id) && typeof width === "number" && Number.isFinite(width)) widths[id] = width;
+    }
+  }
+  return { order, hidden, widths };
+}
+
+function load(key: string, columns: readonly ColumnMeta[]): ColumnLayout {
+  try {
+    const stored = localStorage.getItem(key);
+    return normalize(stored ? JSON.parse(stored) : null, columns);
+  } catch {
+    return defaultLayout(columns);
+  }
+}
+
+function save(key: string, layout: ColumnLayout) {
+  try {
+    localStorage.setItem(key, JSON.stringify(layout));
+  } catch {
+    // Storage full or disabled — the layout still works for this session
+  }
+}
+
+/**
+ * Layout state for a set of column definitions. `storageKey` is an
+ * accessor so a table that switches keys loads that key's layout.
+ */
+export function createColumnLayout<Row, Field extends string>(
+  columns: readonly ColumnDef<Row, Field>[],
+  storageKey: Accessor<string>
+) {
+  const [layout, setLayout] = createStore<ColumnLayout>(load(storageKey(), columns));
+
+  createEffect(
+    on(storageKey, (key) => setLayout(reconcile(load(key, columns))), { defer: true })
+  );
+
+  // Every action writes through — layout changes are rare, discrete
+  // user gestures, except resizing, which only saves on release
+  function update(next: ColumnLayout, persist = true) {
+    setLayout(reconcile(next));
+    if (persist) save(storageKey(), next);
+  }
+
+  const byId = (id: string) => columns.find((c) => c.id === id);
+  const snapshot = (): ColumnLayout => ({
+    order: [...layout.order],
+    hidden: [...layout.hidden],
+    widths: { ...layout.widths },
+  });
+
+  return {
+    /** All columns in the user's order, including hidden ones */
+    ordered: () => layout.order.map(byId).filter((c): c is ColumnDef<Row, Field> => Boolean(c)),
+    visible: () =>
+      layout.order
+        .filter((id) => !layout.hidden.includes(id))
+        .map(byId)
+        .filter((c): c is ColumnDef<Row, Field> => Boolean(c)),
+    isVisible: (id: string) => !layout.hidden.includes(id),
+    width: (id: string) => layout.widths[id] ?? byId(id)?.width ?? DEFAULT_MIN_WIDTH,
+
+    toggle(id: string) {
+      if (byId(id)?.required) return;
+      const next = snapshot();
+      next.hidden = next.hidden.includes(id) ? next.hidden.filter((h) => h !== id) : [...next.hidden, id];
+      update(next);
+    },
+
+    /** Moves `id` to where `targetId` is, shifting the rest along */
+    move(id: string, targetId: string) {
+      if (id === targetId) return;
+      const next = snapshot();
+      const order = next.order.filter((o) => o !== id);
+      const at = order.indexOf(targetId);
+      if (at === -1) return;
+      // Dropping onto a column to the right lands after it
+      const from = layout.order.indexOf(id);
+      order.splice(from < layout.order.indexOf(targetId) ? at + 1 : at, 0, id);
+      update({ ...next, order });
+    },
+
+    /** `commit: false` while dragging, `true` on release */
+    resize(id: string, width: number, commit: boolean) {
+      const min = byId(id)?.minWidth ?? DEFAULT_MIN_WIDTH;
+      const next = snapshot();
+      next.widths[id] = Math.round(Math.max(min, width));
+      update(next, commit);
+    },
+
+    reset() {
+      update(defaultLayout(columns));
+    },
+  };
+}
+
+export type ColumnLayoutStore<Row, Field extends string> = ReturnType<typeof createColumnLayout<Row, Field>>;
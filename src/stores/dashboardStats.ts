@@ -0,0 +1,148 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Dashboard stats — a period of metrics vs the one before it
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  One fetch covers both windows:
+ *
+ *    period "7d":   [ previous 7 days ][ last 7 days ]  ← 14 daily rows
+ *                          ▼                  ▼
+ *                      `previous`         `current`
+ *
+ *  and each stat is an aggregate of a window — revenue is a sum,
+ *  conversion rate is Σ conversions / Σ visitors (NOT an average of
+ *  daily rates, which would weigh a quiet Sunday like a busy Monday).
+ *
+ *  The period lives in the URL (?period=30d), like the table's state,
+ *  so a shared link shows the same numbers.
+ *
+ *  Loading follows the DataTable's snapshot pattern: while a new
+ *  period loads, the cards keep showing the previous numbers, dimmed.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createEffect, createMemo, createResource, createSignal, type Accessor } from "solid-js";
+import { useSearchParams } from "@solidjs/router";
+import { fetchRecentDays, metricsSource, type DailyMetrics } from "~/data/metrics";
+import type { DataSource } from "~/data/source";
+
+export type DashboardPeriod = "today" | "7d" | "30d" | "quarter";
+
+export const dashboardPeriods: { value: DashboardPeriod; label: string; days: number; comparison: string }[] = [
+  { value: "today", label: "Today", days: 1, comparison: "vs yesterday" },
+  { value: "7d", label: "7 days", days: 7, comparison: "vs previous 7 days" },
+  { value: "30d", label: "30 days", days: 30, comparison: "vs previous 30 days" },
+  { value: "quarter", label: "Quarter", days: 90, comparison: "vs previous quarter" },
+];
+
+const DEFAULT_PERIOD: DashboardPeriod = "30d";
+
+export interface StatValue {
+  current: number;
+  previous: number;
+}
+
+export interface DashboardStats {
+  revenue: StatValue;
+  /** Mean daily active users */
+  activeUsers: StatValue;
+  /** 0–1 */
+  conversionRate: StatValue;
+  avgResponseMs: StatValue;
+  /** The current window's daily rows, oldest first */
+  days: DailyMetrics[];
+  /** The previous window's, same order — `previousDays[i]` is `days[i]` one period earlier */
+  previousDays: DailyMetrics[];
+}
+
+export type StatKey = Exclude<keyof DashboardStats, "days" | "previousDays">;
+
+type Totals = Record<StatKey, number>;
+
+function aggregate(rows: DailyMetrics[]): Totals {
+  const sum = (pick: (row: DailyMetrics) => number) => rows.reduce((total, row) => total + pick(row), 0);
+  const visitors = sum((r) => r.visitors);
+  return {
+    revenue: sum((r) => r.revenue),
+    activeUsers: rows.length ? sum((r) => r.activeUsers) / rows.length : 0,
+    conversionRate: visitors ? sum((r) => r.conversions) / visitors : 0,
+    // Weighted by traffic, for the same reason as conversion rate
+    avgResponseMs: visitors ? sum((r) => r.responseMs * r.visitors) / visitors : 0,
+  };
+}
+
+export function periodInfo(period: DashboardPeriod) {
+  return dashboardPeriods.find((p) => p.value === period) ?? dashboardPeriods[0];
+}
+
+export async function fetchDashboardStats(
+  source: DataSource<DailyMetrics>,
+  period: DashboardPeriod
+): Promise<DashboardStats> {
+  const { days } = periodInfo(period);
+  const rows = await fetchRecentDays(source, days * 2);
+  // A short history fills the current window first
+  const split = Math.max(rows.length - days, 0);
+  const previousDays = rows.slice(0, split);
+  const currentDays = rows.slice(split);
+  const previous = aggregate(previousDays);
+  const current = aggregate(currentDays);
+  const stat = (key: StatKey) => ({ current: current[key], previous: previous[key] });
+  return {
+    revenue: stat("revenue"),
+    activeUsers: stat("activeUsers"),
+    conversionRate: stat("conversionRate"),
+    avgResponseMs: stat("avgResponseMs"),
+    days: currentDays,
+    previousDays,
+  };
+}
+
+/**
+ * Each stat's value per day, for sparklines. A day is aggregated the
+ * same way as a window, so the line and the card's number agree.
+ */
+export function dailyTrends(days: DailyMetrics[]): Record<StatKey, number[]> {
+  const perDay = days.map((row) => aggregate([row]));
+  const trend = (key: StatKey) => perDay.map((totals) => totals[key]);
+  return {
+    revenue: trend("revenue"),
+    activeUsers: trend("activeUsers"),
+    conversionRate: trend("conversionRate"),
+    avgResponseMs: trend("avgResponseMs"),
+  };
+}
+
+/** The dashboard period from ?period=, and a setter that writes it back */
+export function usePeriodParam(): [Accessor<DashboardPeriod>, (period: DashboardPeriod) => void] {
+  const [params, setParams] = useSearchParams();
+  const period = createMemo(() => {
+    const value = params.period;
+    return dashboardPeriods.some((p) => p.value === value) ? (value as DashboardPeriod) : DEFAULT_PERIOD;
+  });
+  // The default stays out of the URL, like the table's defaults
+  const setPeriod = (next: DashboardPeriod) =>
+    setParams({ period: next === DEFAULT_PERIOD ? undefined : next }, { replace: true });
+  return [period, setPeriod];
+}
+
+export function createDashboardStats(
+  period: Accessor<DashboardPeriod>,
+  source: DataSource<DailyMetrics> = metricsSource
+) {
+  const [stats, { refetch }] = createResource(period, (p) => fetchDashboardStats(source, p));
+
+  // Snapshot: the last stats that loaded, kept while the next period
+  // loads. Only read once "ready" — reading a pending resource would
+  // suspend the route's <Suspense>, and an errored one throws.
+  const [snapshot, setSnapshot] = createSignal<DashboardStats | null>(null);
+  createEffect(() => {
+    if (stats.state === "ready") setSnapshot(stats());
+  });
+
+  return {
+    stats: snapshot,
+    loading: () => stats.loading,
+    error: () => stats.error as unknown,
+    refetch,
+  };
+}
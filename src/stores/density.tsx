@@ -0,0 +1,91 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Density — one spacing scale, read anywhere via Context
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Each density level is a set of TOKENS: class names (and the one
+ *  number the virtualized table needs) for the handful of spacings
+ *  that matter — card padding, list gaps, table rows.
+ *
+ *    const density = useDensity();
+ *    <div class={`bg-surface rounded-xl ${density().card}`}>
+ *
+ *  Components ask for "card padding", never for "p-5", so a new level
+ *  is one more entry in `densityTokens`.
+ *
+ *  Why a separate Context instead of reading settings directly?
+ *  A subtree can override it — the Settings page wraps itself in the
+ *  DRAFT density, so picking "Compact" previews right there before
+ *  it's saved. Without a provider, components get "comfortable".
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createContext, createMemo, useContext, type Accessor, type ParentProps } from "solid-js";
+
+export type Density = "comfortable" | "cozy" | "compact";
+
+export const densities: { value: Density; label: string }[] = [
+  { value: "comfortable", label: "Comfortable" },
+  { value: "cozy", label: "Cozy" },
+  { value: "compact", label: "Compact" },
+];
+
+export interface DensityTokens {
+  /** <main> padding */
+  page: string;
+  /** Padding inside cards */
+  card: string;
+  /** Gap between cards in a grid */
+  grid: string;
+  /** Vertical rhythm of stacked list items */
+  stack: string;
+  /** Settings row padding */
+  row: string;
+  /** Table cell vertical padding — must fit inside `rowHeight` */
+  cell: string;
+  /** Table row height in px; the virtualized body positions rows by it */
+  rowHeight: number;
+}
+
+// Row heights: 20px of text-sm line + cell padding + 1px top border
+export const densityTokens: Record<Density, DensityTokens> = {
+  comfortable: {
+    page: "p-6",
+    card: "p-5",
+    grid: "gap-4",
+    stack: "space-y-4",
+    row: "py-4",
+    cell: "py-3",
+    rowHeight: 45,
+  },
+  cozy: {
+    page: "p-4",
+    card: "p-4",
+    grid: "gap-3",
+    stack: "space-y-3",
+    row: "py-3",
+    cell: "py-2",
+    rowHeight: 37,
+  },
+  compact: {
+    page: "p-3",
+    card: "p-3",
+    grid: "gap-2",
+    stack: "space-y-2",
+    row: "py-2",
+    cell: "py-1.5",
+    rowHeight: 33,
+  },
+};
+
+const DensityContext = createContext<Accessor<DensityTokens>>(() => densityTokens.comfortable);
+
+/** Provides the tokens for `density` (a reactive prop) to the subtree */
+export function DensityProvider(props: ParentProps<{ density: Density }>) {
+  // Unknown values (a hand-edited import) fall back to comfortable
+  const tokens = createMemo(() => densityTokens[props.density] ?? densityTokens.comfortable);
+  return <DensityContext.Provider value={tokens}>{props.children}</DensityContext.Provider>;
+}
+
+export function useDensity(): Accessor<DensityTokens> {
+  return useContext(DensityContext);
+}
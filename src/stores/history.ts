@@ -0,0 +1,178 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Undo / redo for a store — recorded as patches
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Each action runs inside `record`, which snapshots the store before
+ *  and after and keeps only the leaves that changed:
+ *
+ *    setDigestFrequency  →  [{ path: ["notifications", "digest"],
+ *                           before: "weekly", after: "daily" }]
+ *
+ *  Undo writes every `before` back, redo every `after`. Storing patches
+ *  instead of whole snapshots keeps entries tiny, and because they only
+ *  touch their own paths, Solid notifies just those paths.
+ *
+ *  Rapid repeats of the same action (typing a name) are COALESCED: while
+ *  the previous entry has the same key and is younger than
+ *  `coalesceMs`, the new patch is merged into it — the entry keeps the
+ *  oldest `before` and takes the newest `after`. One Ctrl+Z undoes the
+ *  whole burst of typing.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { batch, createSignal } from "solid-js";
+import { produce, unwrap, type SetStoreFunction } from "solid-js/store";
+
+type Json = Record<string, unknown>;
+
+export interface Patch {
+  path: string[];
+  before: unknown;
+  after: unknown;
+}
+
+export interface HistoryEntry {
+  label: string;
+  patches: Patch[];
+  /** Entries with the same key may be coalesced */
+  key?: string;
+  at: number;
+}
+
+export interface HistoryOptions {
+  /** Oldest entries are dropped beyond this */
+  limit?: number;
+  coalesceMs?: number;
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function diffLeaves(before: unknown, after: unknown, path: string[], patches: Patch[]) {
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffLeaves(before[key], after[key], [...path, key], patches);
+    }
+  } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+    patches.push({ path, before, after });
+  }
+}
+
+export function createHistory<T extends object>(
+  state: T,
+  setState: SetStoreFunction<T>,
+  options: HistoryOptions = {}
+) {
+  const limit = options.limit ?? 100;
+  const coalesceMs = options.coalesceMs ?? 1000;
+  const [past, setPast] = createSignal<HistoryEntry[]>([]);
+  const [future, setFuture] = createSignal<HistoryEntry[]>([]);
+
+  const snapshot = () => structuredClone(unwrap(state));
+
+  function apply(patches: Patch[], side: "before" | "after") {
+    setState(
+      produce((draft) => {
+        for (const patch of patches) {
+          let target = draft as Json;
+          for (const key of patch.path.slice(0, -1)) target = target[key] as Json;
+          target[patch.path[patch.path.length - 1]] = structuredClone(patch[side]);
+        }
+      })
+    );
+  }
+
+  /** Runs `change` and records what it did as one undoable entry */
+  function record(label: string, change: () => void, key?: string) {
+    const before = snapshot();
+    change();
+    const patches: Patch[] = [];
+    diffLeaves(before, snapshot(), [], patches);
+    if (patches.length === 0) return;
+
+    const now = Date.now();
+    const entries = past();
+    const last = entries[entries.length - 1];
+
+    batch(() => {
+      setFuture([]);
+      if (key && last?.key === key && now - last.at < coalesceMs) {
+        // Same burst: keep the entry's original `before`, take the new `after`
+        const merged = last.patches.map((p) => ({ ...p }));
+        for (const patch of patches) {
+          const existing = merged.find((p) => p.path.join(".") === patch.path.join("."));
+          if (existing) existing.after = patch.after;
+          else merged.push(patch);
+        }
+        setPast([...entries.slice(0, -1), { ...last, patches: merged, at: now }]);
+      } else {
+        setPast([...entries, { label, patches, key, at: now }].slice(-limit));
+      }
+    });
+  }
+
+  function undo() {
+    const entries = past();
+    const entry = entries[entries.length - 1];
+    if (!entry) return;
+    batch(() => {
+      apply([...entry.patches].reverse(), "before");
+      setPast(entries.slice(0, -1));
+      setFuture([...future(), entry]);
+    });
+  }
+
+  function redo() {
+    const entries = future();
+    const entry = entries[entries.length - 1];
+    if (!entry) return;
+    batch(() => {
+      apply(entry.patches, "after");
+      setFuture(entries.slice(0, -1));
+      setPast([...past(), entry].slice(-limit));
+    });
+  }
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: () => past().length > 0,
+    canRedo: () => future().length > 0,
+    /** Label of the entry Ctrl+Z would undo */
+    undoLabel: () => past()[past().length - 1]?.label,
+    redoLabel: () => future()[future().length - 1]?.label,
+    clear() {
+      batch(() => {
+        setPast([]);
+        setFuture([]);
+      });
+    },
+  };
+}
+
+export type History = ReturnType<typeof createHistory>;
+
+// "setProfileName" → "Set profile name"
+function humanize(name: string): string {
+  const words = name.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Wraps every function in an actions object so each call is recorded.
+ * Actions listed in `coalesce` merge rapid repeated calls.
+ */
+export function withHistory<A extends Record<string, (...args: never[]) => void>>(
+  actions: A,
+  history: History,
+  coalesce: (keyof A)[] = []
+): A {
+  const wrapped: Record<string, (...args: never[]) => void> = {};
+  for (const [name, action] of Object.entries(actions)) {
+    const key = coalesce.includes(name) ? name : undefined;
+    wrapped[name] = (...args) => history.record(humanize(name), () => action(...args), key);
+  }
+  return wrapped as A;
+}
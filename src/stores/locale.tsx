@@ -0,0 +1,154 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Locale & time zone — formatting that follows the profile
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Dates and numbers are formatted through one Formatters object,
+ *  provided like density (see stores/density):
+ *
+ *    const format = useFormat();
+ *    format().date(new Date(), { dateStyle: "full" })   // in the profile's zone
+ *    format().number(1234.5)                            // 1,234.5 / 1.234,5 / …
+ *
+ *  An empty locale or time zone means "whatever the browser uses".
+ *  Values that Intl rejects (a typo in an imported file, a zone this
+ *  browser doesn't know) fall back the same way — formatting never
+ *  throws a RangeError into a render.
+ *
+ *  Intl formatters are surprisingly expensive to construct, so each
+ *  Formatters object caches them by options.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createContext, createMemo, useContext, type Accessor, type ParentProps } from "solid-js";
+
+export const localeOptions: { value: string; label: string }[] = [
+  { value: "", label: "Browser default" },
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "de-DE", label: "Deutsch" },
+  { value: "es-ES", label: "Español" },
+  { value: "fr-FR", label: "Français" },
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "ja-JP", label: "日本語" },
+];
+
+// Older browsers lack Intl.supportedValuesOf; offer the common zones
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Madrid",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+export function timeZoneOptions(): string[] {
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : FALLBACK_TIME_ZONES;
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface Formatters {
+  /** Resolved locale, e.g. "en-US" */
+  locale: string;
+  /** Resolved IANA zone, e.g. "Europe/Madrid" */
+  timeZone: string;
+  /** In the profile's zone unless `options.timeZone` says otherwise (UTC calendar days) */
+  date: (value: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+  number: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** Whole dollars — the dashboard's revenue figures */
+  currency: (value: number) => string;
+  /** "3 minutes ago", "yesterday" — `value` in epoch ms */
+  relative: (value: number, now?: number) => string;
+}
+
+// Largest unit first; a difference is shown in the first unit it fills
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 3600_000],
+  ["month", 30 * 24 * 3600_000],
+  ["week", 7 * 24 * 3600_000],
+  ["day", 24 * 3600_000],
+  ["hour", 3600_000],
+  ["minute", 60_000],
+];
+
+export function createFormatters(locale: string, timeZone: string): Formatters {
+  const browser = new Intl.DateTimeFormat().resolvedOptions();
+  const resolvedLocale = locale && isValidLocale(locale) ? locale : browser.locale;
+  const resolvedZone = timeZone && isValidTimeZone(timeZone) ? timeZone : browser.timeZone;
+
+  const dateFormats = new Map<string, Intl.DateTimeFormat>();
+  const numberFormats = new Map<string, Intl.NumberFormat>();
+  let relativeFormat: Intl.RelativeTimeFormat | undefined;
+
+  const number = (value: number, options: Intl.NumberFormatOptions = {}) => {
+    const key = JSON.stringify(options);
+    let formatter = numberFormats.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(resolvedLocale, options);
+      numberFormats.set(key, formatter);
+    }
+    return formatter.format(value);
+  };
+
+  return {
+    locale: resolvedLocale,
+    timeZone: resolvedZone,
+    date(value, options = {}) {
+      const key = JSON.stringify(options);
+      let formatter = dateFormats.get(key);
+      if (!formatter) {
+        formatter = new Intl.DateTimeFormat(resolvedLocale, { timeZone: resolvedZone, ...options });
+        dateFormats.set(key, formatter);
+      }
+      return formatter.format(value);
+    },
+    number,
+    currency: (value) => number(value, { style: "currency", currency: "USD", maximumFractionDigits: 0 }),
+    relative(value, now = Date.now()) {
+      relativeFormat ??= new Intl.RelativeTimeFormat(resolvedLocale, { numeric: "auto" });
+      const diff = value - now;
+      for (const [unit, ms] of RELATIVE_UNITS) {
+        if (Math.abs(diff) >= ms) return relativeFormat.format(Math.round(diff / ms), unit);
+      }
+      return relativeFormat.format(0, "second"); // "now"
+    },
+  };
+}
+
+// Without a provider: browser defaults, built once on first use
+let browserFormatters: Formatters | undefined;
+const FormatContext = createContext<Accessor<Formatters>>(
+  () => (browserFormatters ??= createFormatters("", ""))
+);
+
+/** Provides formatters for `locale` / `timeZone` (reactive props) to the subtree */
+export function LocaleProvider(props: ParentProps<{ locale: string; timeZone: string }>) {
+  const formatters = createMemo(() => createFormatters(props.locale, props.timeZone));
+  return <FormatContext.Provider value={formatters}>{props.children}</FormatContext.Provider>;
+}
+
+export function useFormat(): Accessor<Formatters> {
+  return useContext(FormatContext);
+}
@@ -0,0 +1,48 @@
+import { exportRecords } from "~/data/export";
+import {
+  memberExportColumns,
+  memberStatuses,
+  toExportRecord,
+  type MemberRow,
+} from "~/data/members";
+import { createBulkActionRegistry } from "./bulkActions";
+
+/**
+ * Bulk actions for the Team Members table. These three are built in;
+ * pages add their own with `useBulkAction(memberBulkActions, …)`.
+ */
+export const memberBulkActions = createBulkActionRegistry<MemberRow>([
+  {
+    id: "change-status",
+    label: "Change status",
+    choices: memberStatuses,
+    async run({ rows, source, choice, refetch }) {
+      const status = choice as MemberRow["status"];
+      await Promise.all(rows.map((row) => source.update(row.id, { status })));
+      refetch();
+    },
+  },
+  {
+    id: "export",
+    label: "Export selected",
+    run({ rows }) {
+      exportRecords(rows.map(toExportRecord), {
+        filename: "members-selected",
+        format: "csv",
+        columns: memberExportColumns,
+        bom: true,
+      });
+    },
+  },
+  {
+    id: "remove",
+    label: "Remove",
+    tone: "danger",
+    confirm: (rows) => `Remove ${rows.length} member${rows.length === 1 ? "" : "s"}?`,
+    async run({ rows, source, clearSelection, refetch }) {
+      await Promise.all(rows.map((row) => source.remove(row.id)));
+      clearSelection();
+      refetch();
+    },
+  },
+]);
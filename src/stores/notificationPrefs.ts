@@ -0,0 +1,136 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Notification preferences — who hears about what, and when
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Preferences are a matrix of CATEGORY × CHANNEL:
+ *
+ *                    In-app   Email   Push
+ *    Deployments       ✓        ✓
+ *    PR activity       ✓
+ *    System alerts     ✓        ✓       ✓
+ *    Digest                     ✓
+ *
+ *  plus two modifiers:
+ *
+ *    - Quiet hours silence the INTERRUPTING channels (email, push)
+ *      between two times of day, in the profile's time zone. In-app
+ *      notifications still collect, to be read later. The range may
+ *      wrap midnight: 22:00 → 07:00.
+ *    - The digest category is sent daily or weekly (or never).
+ *
+ *  Everything here is a pure function of the preferences, so the
+ *  Header summary and actual delivery can't disagree.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export type NotificationCategory = "deployments" | "pullRequests" | "systemAlerts" | "digest";
+export type NotificationChannel = "inApp" | "email" | "push";
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+export type ChannelMatrix = Record<NotificationCategory, Record<NotificationChannel, boolean>>;
+
+export interface QuietHours {
+  enabled: boolean;
+  /** "HH:MM", 24-hour */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPrefs {
+  channels: ChannelMatrix;
+  quietHours: QuietHours;
+  digest: DigestFrequency;
+}
+
+export const notificationCategories: { value: NotificationCategory; label: string; description: string }[] = [
+  { value: "deployments", label: "Deployments", description: "Releases and rollbacks" },
+  { value: "pullRequests", label: "PR activity", description: "Reviews, comments and merges" },
+  { value: "systemAlerts", label: "System alerts", description: "Health thresholds and outages" },
+  { value: "digest", label: "Digest", description: "A summary of everything above" },
+];
+
+export const notificationChannels: { value: NotificationChannel; label: string }[] = [
+  { value: "inApp", label: "In-app" },
+  { value: "email", label: "Email" },
+  { value: "push", label: "Push" },
+];
+
+export const digestFrequencies: { value: DigestFrequency; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+// Channels that interrupt — the ones quiet hours hold back
+const INTERRUPTING: NotificationChannel[] = ["email", "push"];
+
+/** "22:30" → 1350; null for anything that isn't a valid time */
+export function parseTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// Minutes since midnight of `now` on the wall clock of `timeZone`
+function minutesInZone(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+/** Whether `now` falls inside the quiet hours, read in `timeZone` */
+export function isQuietTime(quiet: QuietHours, now: Date, timeZone: string): boolean {
+  if (!quiet.enabled) return false;
+  const start = parseTime(quiet.start);
+  const end = parseTime(quiet.end);
+  if (start === null || end === null || start === end) return false;
+  const minutes = minutesInZone(now, timeZone);
+  // 09:00 → 17:00 is one span; 22:00 → 07:00 wraps midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/** Channels a notification of `category` goes out on right now */
+export function deliveryChannels(
+  prefs: NotificationPrefs,
+  category: NotificationCategory,
+  now: Date,
+  timeZone: string
+): NotificationChannel[] {
+  if (category === "digest" && prefs.digest === "off") return [];
+  const quiet = isQuietTime(prefs.quietHours, now, timeZone);
+  return notificationChannels
+    .map((c) => c.value)
+    .filter((channel) => prefs.channels[category]?.[channel])
+    .filter((channel) => !(quiet && INTERRUPTING.includes(channel)));
+}
+
+/**
+ * One line per channel plus the modifiers, e.g.
+ *   In-app: all · Email: Deployments, System alerts · Push: off
+ *   Quiet 22:00–07:00 (now) · Weekly digest
+ */
+export function summarizeNotifications(prefs: NotificationPrefs, now: Date, timeZone: string): string[] {
+  const channels = notificationChannels.map(({ value, label }) => {
+    const on = notificationCategories.filter((c) => prefs.channels[c.value]?.[value]);
+    const list =
+      on.length === 0 ? "off" : on.length === notificationCategories.length ? "all" : on.map((c) => c.label).join(", ");
+    return `${label}: ${list}`;
+  });
+
+  const modifiers: string[] = [];
+  if (prefs.quietHours.enabled) {
+    const active = isQuietTime(prefs.quietHours, now, timeZone);
+    modifiers.push(`Quiet ${prefs.quietHours.start}–${prefs.quietHours.end}${active ? " (now)" : ""}`);
+  }
+  modifiers.push(prefs.digest === "off" ? "No digest" : `${prefs.digest === "daily" ? "Daily" : "Weekly"} digest`);
+
+  return [channels.join(" · "), modifiers.join(" · ")];
+}
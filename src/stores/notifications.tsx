@@ -0,0 +1,172 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Notifications — the in-app inbox and OS notifications
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Events arrive from a NotificationSource (see data/notifications)
+ *  or from app code, and all go through `notify()`. It asks the
+ *  preferences which channels an event goes out on right now (see
+ *  notificationPrefs):
+ *
+ *    notify({ category: "deployments", title: "v2.4.1 is live" })
+ *      → ["inApp", "email"]   (push off for deployments)
+ *      → ["inApp"]            (same, during quiet hours)
+ *
+ *  - inApp → filed in the inbox as unread; the bell's badge counts them
+ *  - push  → an OS notification through the Notification API, but
+ *            only for URGENT events, and only once the browser has
+ *            granted permission
+ *  - email → the backend's job; nothing to do in the browser
+ *
+ *  Permission can only be asked for in response to a click, so it's
+ *  requested when push is switched on in Settings (or from the panel),
+ *  never on page load.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import {
+  createContext,
+  createMemo,
+  createSignal,
+  onCleanup,
+  onMount,
+  useContext,
+  type ParentProps,
+} from "solid-js";
+import { createStore, produce } from "solid-js/store";
+import { notificationSource, type NotificationEvent, type NotificationSource } from "~/data/notifications";
+import { useSettings } from "./settings";
+import { useFormat } from "./locale";
+import {
+  deliveryChannels,
+  notificationCategories,
+  type NotificationCategory,
+  type NotificationChannel,
+} from "./notificationPrefs";
+
+export interface AppNotification {
+  id: number;
+  category: NotificationCategory;
+  title: string;
+  body?: string;
+  urgent?: boolean;
+  /** Epoch ms */
+  at: number;
+  read: boolean;
+}
+
+export type PushPermission = NotificationPermission | "unsupported";
+
+// Oldest notifications are dropped beyond this
+const INBOX_LIMIT = 100;
+
+const pushSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+function createNotifications(onOpen: (id: number) => void) {
+  const [settings] = useSettings();
+  const format = useFormat();
+  const [inbox, setInbox] = createStore<AppNotification[]>([]);
+  const [permission, setPermission] = createSignal<PushPermission>(
+    pushSupported() ? Notification.permission : "unsupported"
+  );
+  let nextId = 1;
+
+  const unreadCount = createMemo(() => inbox.filter((n) => !n.read).length);
+
+  /** Push is on for at least one category */
+  const pushEnabled = createMemo(() =>
+    notificationCategories.some((c) => settings.notifications.channels[c.value]?.push)
+  );
+
+  async function requestPushPermission(): Promise<PushPermission> {
+    if (!pushSupported()) return "unsupported";
+    if (Notification.permission === "default") {
+      setPermission(await Notification.requestPermission());
+    } else {
+      setPermission(Notification.permission);
+    }
+    return permission();
+  }
+
+  function showSystemNotification(item: AppNotification) {
+    if (!pushSupported() || Notification.permission !== "granted") return;
+    const notification = new Notification(item.title, { body: item.body, tag: `notification-${item.id}` });
+    notification.onclick = () => {
+      window.focus();
+      onOpen(item.id);
+      notification.close();
+    };
+  }
+
+  /** Delivers a notification; returns the channels it went out on */
+  function notify(event: NotificationEvent): NotificationChannel[] {
+    const now = new Date();
+    const channels = deliveryChannels(settings.notifications, event.category, now, format().timeZone);
+    const item: AppNotification = { ...event, id: nextId++, at: now.getTime(), read: false };
+    if (channels.includes("inApp")) {
+      setInbox((items) => [item, ...items].slice(0, INBOX_LIMIT));
+    }
+    if (channels.includes("push") && event.urgent) showSystemNotification(item);
+    return channels;
+  }
+
+  return {
+    /** Newest first */
+    inbox,
+    unreadCount,
+    notify,
+    permission,
+    pushEnabled,
+    requestPushPermission,
+    markRead(id: number) {
+      setInbox((n) => n.id === id, "read", true);
+    },
+    markAllRead() {
+      setInbox(
+        produce((items) => {
+          for (const item of items) item.read = true;
+        })
+      );
+    },
+    dismiss(id: number) {
+      setInbox((items) => items.filter((n) => n.id !== id));
+    },
+    clear() {
+      setInbox([]);
+    },
+  };
+}
+
+export type NotificationsStore = ReturnType<typeof createNotifications> & {
+  /** Whether the panel behind the bell is open */
+  panelOpen: () => boolean;
+  setPanelOpen: (open: boolean) => void;
+};
+
+const NotificationsContext = createContext<NotificationsStore>();
+
+/**
+ * Needs settings and locale above it: delivery reads both.
+ * `source` defaults to the one picked by VITE_NOTIFICATIONS_SOURCE.
+ */
+export function NotificationsProvider(props: ParentProps<{ source?: NotificationSource }>) {
+  const [panelOpen, setPanelOpen] = createSignal(false);
+  // Clicking an OS notification opens the panel with it marked read
+  const base = createNotifications((id) => {
+    base.markRead(id);
+    setPanelOpen(true);
+  });
+  const store: NotificationsStore = { ...base, panelOpen, setPanelOpen };
+
+  onMount(() => {
+    const unsubscribe = (props.source ?? notificationSource).subscribe(base.notify);
+    onCleanup(unsubscribe);
+  });
+
+  return <NotificationsContext.Provider value={store}>{props.children}</NotificationsContext.Provider>;
+}
+
+export function useNotifications(): NotificationsStore {
+  const ctx = useContext(NotificationsContext);
+  if (!ctx) throw new Error("useNotifications must be used within <NotificationsProvider>");
+  return ctx;
+}
@@ -0,0 +1,80 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Sample buffer — the last N readings of one metric
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  A ring buffer: a fixed-size pair of typed arrays and a write
+ *  position that wraps around. Once full, each push overwrites the
+ *  oldest reading, so memory stays at `capacity` × 16 bytes however
+ *  long the app is open — no array growing and shifting every 2s.
+ *
+ *    capacity 5, after 7 pushes:
+ *
+ *      [ s5 | s6 | s2 | s3 | s4 ]
+ *                  ▲ next write (and the oldest reading)
+ *
+ *  Not reactive on its own; the System Health store bumps a signal
+ *  after each push.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export interface Reading {
+  /** Epoch ms */
+  at: number;
+  value: number;
+}
+
+export function createSampleBuffer(capacity: number) {
+  const times = new Float64Array(capacity);
+  const values = new Float64Array(capacity);
+  let next = 0;
+  let size = 0;
+
+  return {
+    get size() {
+      return size;
+    },
+    push(at: number, value: number) {
+      times[next] = at;
+      values[next] = value;
+      next = (next + 1) % capacity;
+      size = Math.min(size + 1, capacity);
+    },
+    /** Readings at or after `from` (epoch ms), oldest first */
+    since(from = -Infinity): Reading[] {
+      const readings: Reading[] = [];
+      const oldest = (next - size + capacity) % capacity;
+      for (let i = 0; i < size; i++) {
+        const index = (oldest + i) % capacity;
+        if (times[index] >= from) readings.push({ at: times[index], value: values[index] });
+      }
+      return readings;
+    },
+    clear() {
+      next = 0;
+      size = 0;
+    },
+  };
+}
+
+export type SampleBuffer = ReturnType<typeof createSampleBuffer>;
+
+export interface ReadingStats {
+  min: number;
+  avg: number;
+  max: number;
+  /** 95th percentile, nearest-rank: 95% of readings are at or below it */
+  p95: number;
+}
+
+export function summarizeReadings(readings: Reading[]): ReadingStats | null {
+  if (readings.length === 0) return null;
+  const sorted = readings.map((r) => r.value).sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return {
+    min: sorted[0],
+    avg: total / sorted.length,
+    max: sorted[sorted.length - 1],
+    p95: sorted[Math.ceil(sorted.length * 0.95) - 1],
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  createSelection — row selection keyed by id
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Selection is a store of `{ [id]: row }`, NOT a list of indexes.
+ *  Indexes change on every page, sort and refetch; ids don't. So a
+ *  member selected on page 1 is still selected after visiting page 5.
+ *
+ *  Keeping the row object (not just the id) means bulk actions can
+ *  work on rows that are no longer on screen.
+ *
+ *  Store tracking is per key: `isSelected(7)` subscribes to key "7"
+ *  only, so toggling one checkbox doesn't re-run the other rows.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { batch } from "solid-js";
+import { createStore, reconcile } from "solid-js/store";
+
+export function createSelection<Row>(getId: (row: Row) => number) {
+  const [selected, setSelected] = createStore<Record<number, Row | undefined>>({});
+
+  // Anchor for shift-click ranges: the id of the last plain click
+  let anchorId: number | null = null;
+
+  const isSelected = (id: number) => selected[id] !== undefined;
+
+  function setMany(rows: readonly Row[], value: boolean) {
+    batch(() => {
+      for (const row of rows) setSelected(getId(row), value ? row : undefined);
+    });
+  }
+
+  return {
+    isSelected,
+
+    count: () => Object.keys(selected).length,
+
+    rows: () => Object.values(selected) as Row[],
+
+    /**
+     * Plain click toggles one row. Shift-click applies the anchor row's
+     * new state to every row between the anchor and this one, within
+     * `visible` (the rows on screen, in display order).
+     */
+    toggle(row: Row, visible: readonly Row[], shiftKey = false) {
+      const id = getId(row);
+      const anchorIndex = visible.findIndex((r) => getId(r) === anchorId);
+      const index = visible.findIndex((r) => getId(r) === id);
+
+      if (shiftKey && anchorIndex !== -1 && index !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        setMany(visible.slice(from, to + 1), isSelected(anchorId!));
+        return;
+      }
+
+      setSelected(id, isSelected(id) ? undefined : row);
+      anchorId = id;
+    },
+
+    /** Header checkbox: selects the page, or clears it if already fully selected */
+    togglePage(visible: readonly Row[]) {
+      const allSelected = visible.length > 0 && visible.every((r) => isSelected(getId(r)));
+      setMany(visible, !allSelected);
+    },
+
+    selectMany: (rows: readonly Row[]) => setMany(rows, true),
+
+    deselectIds(ids: readonly number[]) {
+      batch(() => {
+        for (const id of ids) setSelected(id, undefined);
+      });
+    },
+
+    /** Keeps selected row objects in sync with freshly fetched data */
+    refresh(rows: readonly Row[]) {
+      batch(() => {
+        for (const row of rows) {
+          if (isSelected(getId(row))) setSelected(getId(row), row);
+        }
+      });
+    },
+
+    clear() {
+      anchorId = null;
+      setSelected(reconcile({}));
+    },
+  };
+}
+
+export type Selection<Row> = ReturnType<typeof createSelection<Row>>;
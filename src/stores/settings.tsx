@@ -10,77 +10,103 @@
  *                  nested property is individually tracked.
  *
  *  Analogy with Vue 3:
- *    Vue:   const state = reactive({ appearance: { darkMode: false } })
- *    Solid: const [state, setState] = createStore({ appearance: { darkMode: false } })
+ *    Vue:   const state = reactive({ profile: { name: "Guille" } })
+ *    Solid: const [state, setState] = createStore({ profile: { name: "Guille" } })
  *
  *  Both use JS Proxies under the hood to intercept property access.
  *  The key difference is the SETTER:
  *
- *    Vue:   state.appearance.darkMode = true;          // direct mutation
- *    Solid: setState("appearance", "darkMode", true);  // path-based setter
- *           setState(produce(s => s.appearance.darkMode = true)); // or immer-style
+ *    Vue:   state.profile.name = "Ada";                // direct mutation
+ *    Solid: setState("profile", "name", "Ada");        // path-based setter
+ *           setState(produce(s => s.profile.name = "Ada")); // or immer-style
  *
  *  Solid prefers explicit setters because it makes the "write" side intentional.
  *  Vue allows direct mutation because its Proxy traps the `set` operation.
  *
  *  HOW the Proxy works:
  *  ────────────────────
- *  When you read `state.appearance.darkMode`:
+ *  When you read `state.profile.name`:
  *    1. The top-level Proxy intercepts the read of `.appearance`
  *    2. Returns a NEW Proxy for the nested object
- *    3. That Proxy intercepts `.darkMode`
+ *    3. That Proxy intercepts `.name`
  *    4. If there's a Listener (we're inside an effect/JSX), it subscribes
  *
- *  When you call `setState("appearance", "darkMode", true)`:
- *    1. Solid walks the path: state → appearance → darkModeoxy intercepts `.darkMode`
+ *  When you call `setState("profile", "name", "Ada")`:
+ *    1. Solid walks the path: state → profile → name
  *    2. Only notifies effects that read THAT specific path
- *    3. Effects reading `state.appearance.compactView` are NOT notified
+ *    3. Effects reading `state.profile.role` are NOT notified
  *
  *  This is why createStore is efficient: FINE-GRAINED nested tracking.
  *
  *  PATH-BASED SETTER examples:
  *  ───────────────────────────
- *  setState("appearance", "darkMode", true)       // set a leaf
- *  setState("appearance", { darkMode: true })     // merge into nested object
+ *  setState("profile", "name", "Ada")                // set a leaf
+ *  setState("profile", { name: "Ada" })              // merge into nested object
  *  setState("profile", "name", n => n.toUpperCase()) // functional update
- *  setState(produce(s => {                        // immer-style batch mutation
- *    s.appearance.darkMode = true;
- *    s.notifications.email = false;
+ *  setState(produce(s => {                           // immer-style batch mutation
+ *    s.profile.name = "Ada";
+ *    s.profile.role = "Owner";
  *  }));
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
  */
 import { createContext, useContext, type ParentProps } from "solid-js";
-import { createStore, produce } from "solid-js/store";
+import { createStore, produce, reconcile, unwrap, type SetStoreFunction } from "solid-js/store";
+import { loadSettings } from "./settingsStorage";
+import { createSettingsSync } from "./settingsSync";
+import type { Density } from "./density";
+import type {
+  DigestFrequency,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPrefs,
+} from "./notificationPrefs";
+import type { ThemePreference } from "./theme";
 
 // ── The shape of our nested settings state ──
 export interface SettingsState {
   appearance: {
-    darkMode: boolean;
-    compactView: boolean;
-  };
-  notifications: {
-    email: boolean;
-    push: boolean;
+    theme: ThemePreference;
+    density: Density;
   };
+  notifications: NotificationPrefs;
   profile: {
     name: string;
+    email: string;
     role: string;
+    /** IANA zone; "" follows the browser */
+    timeZone: string;
+    /** BCP 47 tag; "" follows the browser */
+    locale: string;
+    /** Data URL (see data/avatar); "" shows initials */
+    avatar: string;
   };
 }
 
 // ── Default values ──
-const defaultSettings: SettingsState = {
+// Also the schema for stored settings: anything loaded from storage is
+// merged over this, so a new field here just needs a default.
+export const defaultSettings: SettingsState = {
   appearance: {
-    darkMode: false,
-    compactView: false,
+    theme: "system",
+    density: "comfortable",
   },
   notifications: {
-    email: true,
-    push: false,
+    channels: {
+      deployments: { inApp: true, email: true, push: false },
+      pullRequests: { inApp: true, email: false, push: false },
+      systemAlerts: { inApp: true, email: true, push: false },
+      digest: { inApp: false, email: true, push: false },
+    },
+    quietHours: { enabled: false, start: "22:00", end: "07:00" },
+    digest: "weekly",
   },
   profile: {
     name: "Guille",
+    email: "",
     role: "Admin",
+    timeZone: "",
+    locale: "",
+    avatar: "",
   },
 };
 
@@ -88,27 +114,52 @@ const defaultSettings: SettingsState = {
  * Helper actions that wrap setState with descriptive names.
  * This is a common Solid pattern: expose "actions" alongside the store
  * so consumers don't need to know the internal path structure.
+ *
+ * Exported because they work on ANY SettingsState store — the Settings
+ * page runs the same actions against its draft copy.
  */
-function createSettingsActions(
-  setState: ReturnType<typeof createStore<SettingsState>>[1]
-) {
+export function createSettingsActions(setState: SetStoreFunction<SettingsState>) {
   return {
     // ── Path-based setters (one property at a time) ──
-    toggleDarkMode: () =>
-      setState("appearance", "darkMode", (prev) => !prev),
+    setTheme: (theme: ThemePreference) =>
+      setState("appearance", "theme", theme),
+
+    setDensity: (density: Density) =>
+      setState("appearance", "density", density),
 
-    toggleCompactView: () =>
-      setState("appearance", "compactView", (prev) => !prev),
+    setChannel: (category: NotificationCategory, channel: NotificationChannel, on: boolean) =>
+      setState("notifications", "channels", category, channel, on),
 
-    toggleEmailNotifications: () =>
-      setState("notifications", "email", (prev) => !prev),
+    toggleQuietHours: () =>
+      setState("notifications", "quietHours", "enabled", (prev) => !prev),
 
-    togglePushNotifications: () =>
-      setState("notifications", "push", (prev) => !prev),
+    setQuietHoursStart: (start: string) =>
+      setState("notifications", "quietHours", "start", start),
+
+    setQuietHoursEnd: (end: string) =>
+      setState("notifications", "quietHours", "end", end),
+
+    setDigestFrequency: (digest: DigestFrequency) =>
+      setState("notifications", "digest", digest),
 
     setProfileName: (name: string) =>
       setState("profile", "name", name),
 
+    setProfileEmail: (email: string) =>
+      setState("profile", "email", email),
+
+    setProfileRole: (role: string) =>
+      setState("profile", "role", role),
+
+    setTimeZone: (timeZone: string) =>
+      setState("profile", "timeZone", timeZone),
+
+    setLocale: (locale: string) =>
+      setState("profile", "locale", locale),
+
+    setAvatar: (avatar: string) =>
+      setState("profile", "avatar", avatar),
+
     // ── produce() — immer-style batch mutation ──
     // Useful when you need to update multiple nested paths at once.
     // `produce` gives you a mutable draft; Solid diffs it and fires
@@ -116,16 +167,38 @@ function createSettingsActions(
     resetToDefaults: () =>
       setState(
         produce((draft) => {
-          draft.appearance.darkMode = false;
-          draft.appearance.compactView = false;
-          draft.notifications.email = true;
-          draft.notifications.push = false;
+          draft.appearance.theme = defaultSettings.appearance.theme;
+          draft.appearance.density = defaultSettings.appearance.density;
+          const notifications = defaultSettings.notifications;
+          for (const category of Object.keys(notifications.channels) as NotificationCategory[]) {
+            Object.assign(draft.notifications.channels[category], notifications.channels[category]);
+          }
+          Object.assign(draft.notifications.quietHours, notifications.quietHours);
+          draft.notifications.digest = notifications.digest;
+          draft.profile.name = defaultSettings.profile.name;
+          draft.profile.email = defaultSettings.profile.email;
+          draft.profile.role = defaultSettings.profile.role;
+          draft.profile.timeZone = defaultSettings.profile.timeZone;
+          draft.profile.locale = defaultSettings.profile.locale;
+          draft.profile.avatar = defaultSettings.profile.avatar;
         })
       ),
   };
 }
 
-export type SettingsActions = ReturnType<typeof createSettingsActions>;
+// ── Validation ──
+// Lives with the other field rules, which storage and import also use
+export { validateProfileField } from "./settingsRules";
+
+export type SettingsActions = ReturnType<typeof createSettingsActions> & {
+  /** Replaces the whole store, diffing so only changed paths notify */
+  replaceAll: (next: SettingsState) => void;
+  /**
+   * Changes are saved automatically (debounced); this writes right
+   * away and reports whether storage accepted it
+   */
+  saveNow: () => boolean;
+};
 
 // ── Context: lets any component in the tree read/write settings ──
 type SettingsContextValue = [state: SettingsState, actions: SettingsActions];
@@ -136,10 +209,20 @@ const SettingsContext = createContext<SettingsContextValue>();
  * Provider component — wrap your app (or a subtree) with this.
  * createStore returns [proxyObject, setterFn], similar to createSignal
  * but the "getter" is an object you read properties from (not a function).
+ *
+ * The store starts from what was saved last time (see settingsStorage)
+ * and saves itself on every change, keeping other tabs in step (see
+ * settingsSync).
  */
 export function SettingsProvider(props: ParentProps) {
-  const [state, setState] = createStore<SettingsState>(structuredClone(defaultSettings));
-  const actions = createSettingsActions(setState);
+  const loaded = loadSettings(defaultSettings);
+  const [state, setState] = createStore<SettingsState>(loaded.settings);
+  const sync = createSettingsSync(state, setState, loaded, defaultSettings);
+  const actions: SettingsActions = {
+    ...createSettingsActions(setState),
+    replaceAll: (next) => setState(reconcile(structuredClone(unwrap(next)))),
+    saveNow: sync.flush,
+  };
 
   return (
     <SettingsContext.Provider value={[state, actions]}>
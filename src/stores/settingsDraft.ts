@@ -0,0 +1,151 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Draft vs committed — editing a copy of a store
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The Settings page edits a DRAFT: a second store, cloned from the
+ *  committed settings when the page opens. The rest of the app keeps
+ *  reading the committed store, so nothing changes until Save:
+ *
+ *    committed ──clone──▶ draft ──toggles, typing──▶ draft'
+ *        ▲                                             │
+ *        └──────────────── save (reconcile) ───────────┘
+ *                          discard: draft ← clone(committed)
+ *
+ *  `unwrap` gives the plain object behind a store Proxy — needed
+ *  because structuredClone can't copy a Proxy.
+ *
+ *  Dirty tracking is just a comparison, per leaf, between the two
+ *  stores. Each comparison is its own reactive read, so a dirty dot
+ *  next to one field only re-evaluates when THAT field changes.
+ *
+ *  Every edit to the draft — actions, discard, an applied import — goes
+ *  through an undo history (see stores/history).
+ *
+ *  The committed store can also move while the page is open — another
+ *  tab saves (see stores/settingsSync). The draft remembers the
+ *  committed state it was last in step with (`base`) and merges each
+ *  field three ways:
+ *
+ *    draft == base       untouched here   → take the incoming value
+ *    draft == incoming   same edit twice  → nothing to do
+ *    otherwise           CONFLICT         → keep the draft's value and
+ *                                           hold Save until the user
+ *                                           picks a side
+ *
+ *  So Save never quietly reverts a change it didn't know about.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { batch, createEffect, createMemo, createSignal, untrack } from "solid-js";
+import { createStore, produce, reconcile, unwrap } from "solid-js/store";
+import { createSettingsActions, useSettings, type SettingsState } from "./settings";
+import { createHistory, withHistory } from "./history";
+
+const HISTORY_LIMIT = 50;
+
+type Section = keyof SettingsState;
+type Json = Record<string, unknown>;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** "section.key" of every field, the granularity of dirty tracking */
+function fieldPaths(state: SettingsState): string[] {
+  return (Object.keys(state) as Section[]).flatMap((section) =>
+    Object.keys(state[section]).map((key) => `${section}.${key}`)
+  );
+}
+
+function fieldValue(state: SettingsState, path: string): unknown {
+  const [section, key] = path.split(".");
+  return (state[section as Section] as Json)[key];
+}
+
+export function createSettingsDraft() {
+  const [committed, committedActions] = useSettings();
+  const [draft, setDraft] = createStore<SettingsState>(structuredClone(unwrap(committed)));
+
+  // The same actions the app uses, pointed at the draft and recorded.
+  // Typing a name is one undo step, not one per keystroke.
+  const history = createHistory(draft, setDraft, { limit: HISTORY_LIMIT });
+  const actions = withHistory(createSettingsActions(setDraft), history, [
+    "setProfileName",
+    "setProfileEmail",
+    "setProfileRole",
+  ]);
+
+  // Fields may be objects (a row of the notification matrix), so compare
+  // by value — the draft and the committed store never share references
+  function isFieldDirty<S extends Section>(section: S, key: keyof SettingsState[S]): boolean {
+    return JSON.stringify(draft[section][key]) !== JSON.stringify(committed[section][key]);
+  }
+
+  const isDirty = createMemo(() => JSON.stringify(draft) !== JSON.stringify(committed));
+
+  // ── Changes from elsewhere ──
+  let base = structuredClone(unwrap(committed));
+  const [flagged, setFlagged] = createSignal<string[]>([]);
+
+  createEffect(() => {
+    const incoming = JSON.parse(JSON.stringify(committed)) as SettingsState; // tracks every leaf
+    if (sameValue(incoming, base)) return;
+    untrack(() => {
+      const found: string[] = [];
+      batch(() => {
+        for (const path of fieldPaths(incoming)) {
+          const theirs = fieldValue(incoming, path);
+          const mine = fieldValue(draft, path);
+          if (sameValue(theirs, fieldValue(base, path)) || sameValue(mine, theirs)) continue;
+          if (sameValue(mine, fieldValue(base, path))) writeField(path, theirs);
+          else found.push(path);
+        }
+      });
+      base = incoming;
+      setFlagged((current) => [...new Set([...current, ...found])]);
+    });
+  });
+
+  // Not recorded: undo shouldn't bring back what the other tab replaced
+  function writeField(path: string, value: unknown) {
+    const [section, key] = path.split(".");
+    setDraft(produce((state) => void ((state[section as Section] as Json)[key] = structuredClone(value))));
+  }
+
+  /**
+   * Fields changed both here and elsewhere since the draft was taken.
+   * A field drops out once the two sides agree again (edited to match,
+   * discarded, or resolved below).
+   */
+  const conflicts = createMemo(() =>
+    flagged().filter((path) => !sameValue(fieldValue(draft, path), fieldValue(committed, path)))
+  );
+
+  /** Settles every conflict: keep the draft's values, or take the committed ones */
+  function resolveConflicts(keep: "mine" | "theirs") {
+    const paths = conflicts();
+    if (keep === "theirs") {
+      history.record("Use changes from another tab", () => {
+        for (const path of paths) writeField(path, fieldValue(committed, path));
+      });
+    }
+    setFlagged([]);
+  }
+
+  /** Commits the draft and writes it to storage; false if storage refused */
+  function save(): boolean {
+    if (conflicts().length > 0) return false;
+    committedActions.replaceAll(draft);
+    base = structuredClone(unwrap(committed));
+    return committedActions.saveNow();
+  }
+
+  function discard() {
+    history.record("Discard changes", () => setDraft(reconcile(structuredClone(unwrap(committed)))));
+  }
+
+  /** Replaces the whole draft, e.g. with an imported file */
+  function replace(next: SettingsState, label = "Import settings") {
+    history.record(label, () => setDraft(reconcile(structuredClone(next))));
+  }
+
+  return { draft, actions, history, isFieldDirty, isDirty, conflicts, resolveConflicts, save, discard, replace };
+}
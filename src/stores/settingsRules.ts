@@ -0,0 +1,90 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Settings field rules — what a valid value looks like
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The defaults pin each field's TYPE, but a string can still be the
+ *  wrong string: `appearance.theme: "purple"`, `quietHours.start:
+ *  "25:99"`. Fields that only take some values of their type get a
+ *  rule here, keyed by path:
+ *
+ *    validateSettingsField("appearance.theme", "purple")
+ *      → 'Expected one of "light", "dark", "system", got "purple"'
+ *
+ *  Every way into the store that isn't the Settings form — a stored
+ *  blob, another tab, an imported file — runs values through these,
+ *  so a bad value is rejected at the door instead of being hidden by
+ *  a fallback later and saved back out again.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { MAX_AVATAR_URL_LENGTH } from "~/data/avatar";
+import { densities } from "./density";
+import { isValidLocale, isValidTimeZone } from "./locale";
+import { digestFrequencies, parseTime } from "./notificationPrefs";
+import { themePreferences } from "./theme";
+
+// Same check as member emails (data/members), which this file doesn't
+// import: that module pulls the fixtures into the main bundle
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * The profile fields with a format. The Settings draft may hold a
+ * half-typed value; Save stays disabled until every field passes.
+ * Returns a message for the user, or null.
+ */
+export function validateProfileField(
+  field: "email" | "timeZone" | "locale",
+  value: string
+): string | null {
+  if (value === "") return null; // all optional
+  switch (field) {
+    case "email":
+      return EMAIL_PATTERN.test(value.trim()) ? null : "Enter a valid email address";
+    case "timeZone":
+      return isValidTimeZone(value) ? null : "Unknown time zone";
+    case "locale":
+      return isValidLocale(value) ? null : "Unknown locale";
+  }
+}
+
+function oneOf(options: { value: string }[]) {
+  const allowed = options.map((o) => o.value);
+  return (value: string) =>
+    allowed.includes(value)
+      ? null
+      : `Expected one of ${allowed.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`;
+}
+
+// Only an image made by createAvatar: an http(s) URL would be fetched
+// on every page (a tracker), and a huge one would fill localStorage
+const AVATAR_DATA_URL = /^data:image\/(webp|jpeg|png);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+function avatar(value: string): string | null {
+  if (value === "") return null;
+  if (value.length > MAX_AVATAR_URL_LENGTH) return `Expected an avatar under ${MAX_AVATAR_URL_LENGTH / 1000} KB`;
+  return AVATAR_DATA_URL.test(value) ? null : "Expected a WebP, JPEG or PNG data URL";
+}
+
+const time = (value: string) => (parseTime(value) === null ? `Expected a time as HH:MM, got ${JSON.stringify(value)}` : null);
+
+// Only string fields need rules so far; booleans are whole by type
+const rules: Partial<Record<string, (value: string) => string | null>> = {
+  "appearance.theme": oneOf(themePreferences),
+  "appearance.density": oneOf(densities),
+  "notifications.digest": oneOf(digestFrequencies),
+  "notifications.quietHours.start": time,
+  "notifications.quietHours.end": time,
+  "profile.email": (value) => validateProfileField("email", value),
+  "profile.timeZone": (value) => validateProfileField("timeZone", value),
+  "profile.locale": (value) => validateProfileField("locale", value),
+  "profile.avatar": avatar,
+};
+
+/**
+ * Checks a leaf that already has the right type. Returns why the value
+ * can't be used, or null if it can (including fields without a rule).
+ */
+export function validateSettingsField(path: string, value: unknown): string | null {
+  const rule = rules[path];
+  return rule && typeof value === "string" ? rule(value) : null;
+}
@@ -0,0 +1,190 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Settings persistence — versioned localStorage blobs
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The store is saved as an envelope with a schema version, plus a
+ *  stamp saying when and by which tab it was written (used by
+ *  settingsSync to settle edits made in two tabs at once):
+ *
+ *    { "version": 1, "updatedAt": 1718000000000, "tabId": "…",
+ *      "data": { "appearance": { … }, … } }
+ *
+ *  When SettingsState changes shape, bump SETTINGS_VERSION and add a
+ *  migration from the previous version. Loading runs every step from
+ *  the stored version up to the current one:
+ *
+ *    v1 blob ──migrations[1]──▶ v2 ──migrations[2]──▶ v3 (current)
+ *
+ *  After migrating, the data is merged over the defaults leaf by leaf,
+ *  keeping only values whose type matches the default and that pass
+ *  the field's rule in settingsRules. So a missing new field gets its
+ *  default, a hand-edited `"enabled": "yes"` can't sneak a string into
+ *  a boolean, and `"theme": "purple"` falls back to the default theme.
+ *
+ *  Anything unreadable — invalid JSON, a blob from a NEWER version,
+ *  a migration that throws — falls back to the defaults. The bad blob
+ *  is copied aside under `<key>:corrupt` rather than silently lost.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import type { SettingsState } from "./settings";
+import { validateSettingsField } from "./settingsRules";
+
+export const SETTINGS_STORAGE_KEY = "solid-dashboard:settings";
+export const SETTINGS_VERSION = 4;
+
+type Json = Record<string, unknown>;
+
+/** When, and by which tab, a settings value was written */
+export interface SettingsStamp {
+  updatedAt: number;
+  tabId: string;
+}
+
+/** Blobs written before stamps existed lose to any stamped write */
+export const initialStamp: SettingsStamp = { updatedAt: 0, tabId: "" };
+
+export interface StoredSettings extends SettingsStamp {
+  version: number;
+  data: unknown;
+}
+
+export interface LoadedSettings {
+  settings: SettingsState;
+  stamp: SettingsStamp;
+}
+
+// ── Migrations ──
+// migrations[n] turns a version-n blob into a version-(n + 1) blob.
+// They work on plain JSON, not SettingsState: the input is whatever an
+// older build wrote, which the current types know nothing about.
+const migrations: Record<number, (data: Json) => Json> = {
+  // v1 → v2: the dark-mode switch became a light / dark / system theme
+  1: (data) => {
+    const { darkMode, ...appearance } = isObject(data.appearance) ? data.appearance : {};
+    return { ...data, appearance: { ...appearance, theme: darkMode === true ? "dark" : "light" } };
+  },
+  // v2 → v3: the compact-view switch became a density scale
+  2: (data) => {
+    const { compactView, ...appearance } = isObject(data.appearance) ? data.appearance : {};
+    return { ...data, appearance: { ...appearance, density: compactView === true ? "compact" : "comfortable" } };
+  },
+  // v3 → v4: the email / push switches became a category × channel
+  // matrix. Email covered every category; push was for urgent alerts.
+  // (v3 defaulted to email on, push off.)
+  3: (data) => {
+    const { email, push } = isObject(data.notifications) ? data.notifications : {};
+    const emailOn = email !== false;
+    const row = (urgent: boolean) => ({ inApp: true, email: emailOn, push: urgent && push === true });
+    return {
+      ...data,
+      notifications: {
+        channels: {
+          deployments: row(false),
+          pullRequests: row(false),
+          systemAlerts: row(true),
+          digest: { ...row(false), inApp: false },
+        },
+        digest: emailOn ? "weekly" : "off",
+      },
+    };
+  },
+};
+
+export function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Runs the migration chain up to SETTINGS_VERSION; throws if it can't */
+export function migrateSettings(stored: Pick<StoredSettings, "version" | "data">): Json {
+  if (!Number.isInteger(stored.version) || stored.version < 1) {
+    throw new Error(`Invalid settings version: ${stored.version}`);
+  }
+  if (stored.version > SETTINGS_VERSION) {
+    throw new Error(`Settings version ${stored.version} is newer than this app (${SETTINGS_VERSION})`);
+  }
+  let data = stored.data;
+  for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+    if (!isObject(data)) break;
+    const step = migrations[version];
+    if (!step) throw new Error(`No settings migration from version ${version}`);
+    data = step(data);
+  }
+  if (!isObject(data)) throw new Error("Settings data is not an object");
+  return data;
+}
+
+/**
+ * Deep-merges `value` over `defaults`, keeping only leaves of the
+ * default's type that also pass their field rule (see settingsRules).
+ * `path` is where `defaults` sits in the settings tree.
+ */
+export function mergeWithDefaults<T>(defaults: T, value: unknown, path = ""): T {
+  if (isObject(defaults)) {
+    const source = isObject(value) ? value : {};
+    const result: Json = {};
+    for (const key of Object.keys(defaults)) {
+      result[key] = mergeWithDefaults(defaults[key], source[key], path ? `${path}.${key}` : key);
+    }
+    return result as T;
+  }
+  if (typeof value !== typeof defaults) return defaults;
+  return validateSettingsField(path, value) ? defaults : (value as T);
+}
+
+/**
+ * Migrates and validates a parsed envelope — from storage, or from
+ * another tab. Throws if it can't be used.
+ */
+export function parseStoredSettings(stored: unknown, defaults: SettingsState): LoadedSettings {
+  if (!isObject(stored) || typeof stored.version !== "number") {
+    throw new Error("Settings blob has no version");
+  }
+  return {
+    settings: mergeWithDefaults(defaults, migrateSettings({ version: stored.version, data: stored.data })),
+    stamp: {
+      updatedAt: typeof stored.updatedAt === "number" ? stored.updatedAt : initialStamp.updatedAt,
+      tabId: typeof stored.tabId === "string" ? stored.tabId : initialStamp.tabId,
+    },
+  };
+}
+
+/** Reads, migrates and validates the stored settings — never throws */
+export function loadSettings(defaults: SettingsState, key = SETTINGS_STORAGE_KEY): LoadedSettings {
+  const fallback = () => ({ settings: structuredClone(defaults), stamp: initialStamp });
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(key);
+    if (raw === null) return fallback();
+    return parseStoredSettings(JSON.parse(raw), defaults);
+  } catch (err) {
+    console.warn("Ignoring stored settings:", err);
+    if (raw !== null) {
+      try {
+        localStorage.setItem(`${key}:corrupt`, raw);
+      } catch {
+        // Nowhere to keep it — defaults still apply
+      }
+    }
+    return fallback();
+  }
+}
+
+export function toStoredSettings(state: SettingsState, stamp: SettingsStamp): StoredSettings {
+  return { version: SETTINGS_VERSION, ...stamp, data: state };
+}
+
+/** Writes the envelope; returns false if storage is full or unavailable */
+export function saveSettings(
+  state: SettingsState,
+  stamp: SettingsStamp,
+  key = SETTINGS_STORAGE_KEY
+): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(toStoredSettings(state, stamp)));
+    return true;
+  } catch (err) {
+    console.warn("Couldn't save settings:", err);
+    return false;
+  }
+}
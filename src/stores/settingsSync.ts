@@ -0,0 +1,147 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Settings sync — storage + every other open tab
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  A local change is stamped, broadcast right away and written to
+ *  localStorage after a short debounce:
+ *
+ *    tab A: toggle ──▶ stamp ──▶ BroadcastChannel ──▶ tab B, C …
+ *                         └──(300ms)──▶ localStorage ──"storage"──▶ tab B, C …
+ *
+ *  The `storage` event is the fallback for browsers without
+ *  BroadcastChannel. Where both exist, each change arrives twice —
+ *  harmless, because a message is only applied if its stamp is NEWER
+ *  than the one this tab holds.
+ *
+ *  Last writer wins, deterministically: compare `updatedAt`, and if two
+ *  tabs wrote in the same millisecond, the larger `tabId` wins. Every
+ *  tab compares the same way, so they all settle on the same value.
+ *
+ *  Incoming settings go through `reconcile`: Solid diffs the new object
+ *  against the store and only notifies the paths that actually changed
+ *  — switching the theme elsewhere re-runs theme effects only.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createEffect, on, onCleanup } from "solid-js";
+import { reconcile, unwrap, type SetStoreFunction } from "solid-js/store";
+import type { SettingsState } from "./settings";
+import {
+  SETTINGS_STORAGE_KEY,
+  parseStoredSettings,
+  saveSettings,
+  toStoredSettings,
+  type LoadedSettings,
+  type SettingsStamp,
+} from "./settingsStorage";
+
+const SAVE_DEBOUNCE_MS = 300;
+const CHANNEL_NAME = "solid-dashboard:settings";
+
+function newTabId(): string {
+  return typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
+
+function isNewer(a: SettingsStamp, b: SettingsStamp): boolean {
+  return a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.tabId > b.tabId;
+}
+
+/**
+ * Keeps the store, localStorage and other tabs in step. `loaded` is
+ * what the store was hydrated from. Must be called inside a component
+ * or root; returns `flush` to write a pending change immediately.
+ */
+export function createSettingsSync(
+  state: SettingsState,
+  setState: SetStoreFunction<SettingsState>,
+  loaded: LoadedSettings,
+  defaults: SettingsState
+) {
+  const tabId = newTabId();
+  let stamp = loaded.stamp;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Serialized value of the last remote apply, so the change effect
+  // can tell "another tab changed this" from "the user changed this"
+  let appliedRemote: string | null = null;
+
+  const channel = "BroadcastChannel" in window ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  function flush(): boolean {
+    clearTimeout(timer);
+    timer = undefined;
+    return saveSettings(state, stamp);
+  }
+
+  // ── Outgoing ──
+  // JSON.stringify reads every property, so the effect subscribes to
+  // the whole store (and doubles as a cheap "did anything change" key)
+  createEffect(
+    on(
+      () => JSON.stringify(state),
+      (serialized) => {
+        if (serialized === appliedRemote) {
+          appliedRemote = null;
+          return;
+        }
+        // Never behind a stamp we've already seen, even with clock skew
+        stamp = { updatedAt: Math.max(Date.now(), stamp.updatedAt + 1), tabId };
+        channel?.postMessage(toStoredSettings(unwrap(state), stamp));
+        clearTimeout(timer);
+        timer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+      },
+      { defer: true }
+    )
+  );
+
+  // ── Incoming ──
+  function receive(message: unknown) {
+    let incoming: LoadedSettings;
+    try {
+      incoming = parseStoredSettings(message, defaults);
+    } catch (err) {
+      // e.g. a tab running a newer build — keep what we have
+      console.warn("Ignoring settings from another tab:", err);
+      return;
+    }
+    if (!isNewer(incoming.stamp, stamp)) return;
+
+    stamp = incoming.stamp;
+    // Our pending write lost: don't let it overwrite the newer value
+    clearTimeout(timer);
+    timer = undefined;
+    // Only mark it when the store will actually change — otherwise the
+    // effect never runs to clear the mark
+    const serialized = JSON.stringify(incoming.settings);
+    if (serialized === JSON.stringify(state)) return;
+    appliedRemote = serialized;
+    setState(reconcile(incoming.settings));
+  }
+
+  const onMessage = (e: MessageEvent) => receive(e.data);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== SETTINGS_STORAGE_KEY || e.newValue === null) return;
+    try {
+      receive(JSON.parse(e.newValue));
+    } catch {
+      // Unparseable write from elsewhere — ignore it
+    }
+  };
+  const onPageHide = () => {
+    if (timer !== undefined) flush();
+  };
+
+  channel?.addEventListener("message", onMessage);
+  window.addEventListener("storage", onStorage);
+  window.addEventListener("pagehide", onPageHide);
+
+  onCleanup(() => {
+    channel?.close();
+    window.removeEventListener("storage", onStorage);
+    window.removeEventListener("pagehide", onPageHide);
+    if (timer !== undefined) flush();
+  });
+
+  return { flush };
+}
@@ -0,0 +1,140 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Settings import / export — moving preferences between machines
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Export writes the same versioned envelope as localStorage (minus
+ *  the sync stamp), so a file from an older build is migrated on import
+ *  exactly like an old stored blob.
+ *
+ *  Import is stricter than loading from storage. Storage silently
+ *  falls back to defaults; an import is something the user chose, so
+ *  every problem is reported against the field it's on:
+ *
+ *    notifications.quietHours.enabled   Expected true/false, got "yes"
+ *    appearance.theme                   Expected one of "light", "dark", "system", got "purple"
+ *
+ *  A value of the right type must also pass the field's rule (see
+ *  settingsRules); one that doesn't is reported and not applied.
+ *
+ *  Keys the schema doesn't know are dropped (and listed), and fields
+ *  missing from the file keep their current value. The result is shown
+ *  as a diff — nothing changes until the user applies it.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { downloadFile } from "~/data/export";
+import type { SettingsState } from "./settings";
+import { validateSettingsField } from "./settingsRules";
+import { SETTINGS_VERSION, isObject, migrateSettings } from "./settingsStorage";
+
+export interface SettingsFieldError {
+  path: string;
+  message: string;
+}
+
+export interface SettingsChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SettingsImport {
+  /** Current settings with the file's valid fields applied */
+  settings: SettingsState;
+  changes: SettingsChange[];
+  errors: SettingsFieldError[];
+  /** Paths of keys that aren't part of the schema */
+  dropped: string[];
+}
+
+export function exportSettings(settings: SettingsState) {
+  const file = { version: SETTINGS_VERSION, exportedAt: new Date().toISOString(), data: settings };
+  downloadFile("dashboard-settings.json", JSON.stringify(file, null, 2), "application/json");
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "object") return "an object";
+  return JSON.stringify(value);
+}
+
+const expected: Record<string, string> = {
+  boolean: "true/false",
+  string: "text",
+  number: "a number",
+  object: "an object",
+};
+
+// Walks the schema (the current settings) and the file side by side,
+// taking valid leaves from the file and recording everything else
+function merge(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  result: Pick<SettingsImport, "errors" | "dropped">
+): unknown {
+  if (isObject(schema)) {
+    if (value === undefined) return schema;
+    if (!isObject(value)) {
+      result.errors.push({ path, message: `Expected an object, got ${describe(value)}` });
+      return schema;
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in schema)) result.dropped.push(path ? `${path}.${key}` : key);
+    }
+    const merged: Record<string, unknown> = {};
+    for (const key of Object.keys(schema)) {
+      merged[key] = merge(schema[key], value[key], path ? `${path}.${key}` : key, result);
+    }
+    return merged;
+  }
+  if (value === undefined) return schema;
+  if (typeof value !== typeof schema) {
+    result.errors.push({ path, message: `Expected ${expected[typeof schema]}, got ${describe(value)}` });
+    return schema;
+  }
+  const invalid = validateSettingsField(path, value);
+  if (invalid) {
+    result.errors.push({ path, message: invalid });
+    return schema;
+  }
+  return value;
+}
+
+function diff(before: unknown, after: unknown, path: string, changes: SettingsChange[]) {
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      diff(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+  } else if (before !== after) {
+    changes.push({ path, from: before, to: after });
+  }
+}
+
+/**
+ * Parses an imported file against `current`. Throws only when the file
+ * isn't usable at all (not JSON, unknown version); field problems are
+ * collected in `errors`.
+ */
+export function parseSettingsImport(text: string, current: SettingsState): SettingsImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  if (!isObject(parsed)) throw new Error("Expected a settings object");
+
+  // A bare SettingsState (hand-written, say) is taken as the current version
+  const data =
+    "version" in parsed
+      ? migrateSettings({ version: parsed.version as number, data: parsed.data })
+      : parsed;
+
+  const result: Pick<SettingsImport, "errors" | "dropped"> = { errors: [], dropped: [] };
+  const settings = merge(current, data, "", result) as SettingsState;
+  const changes: SettingsChange[] = [];
+  diff(current, settings, "", changes);
+  return { settings, changes, ...result };
+}
@@ -0,0 +1,269 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  System Health — live metrics, thresholds and alerts
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Holds the connection to a HealthSource (see data/systemHealth)
+ *  and turns its samples into per-metric values and levels.
+ *
+ *  Connection lifecycle:
+ *
+ *    connecting ──sample──▶ live ──error──▶ reconnecting ──(wait)──▶ connecting …
+ *        ▲                                                                │
+ *        └────────────────────── tab visible again ◀── paused ◀── tab hidden
+ *
+ *  - Hidden tab → disconnect. Nobody is looking, and a background tab
+ *    polling every 2s is wasted work for us and the server.
+ *  - Error → retry after 1s, 2s, 4s … capped at 30s, each randomized
+ *    to between half and all of that ("jitter"), so a server restart
+ *    isn't met by every open dashboard at the same instant. The first
+ *    sample after a reconnect resets the backoff.
+ *
+ *  Thresholds: each metric has a warning and a critical value. Going
+ *  UP a level recolors the bar and raises a systemAlerts notification
+ *  (critical ones are urgent, so they can reach the OS). Coming back
+ *  down needs a margin below the warning line before it counts as
+ *  recovered, so a value hovering at the threshold doesn't alert on
+ *  every sample.
+ *
+ *  History: every metric keeps its last HISTORY_CAPACITY readings in
+ *  a ring buffer (see sampleBuffer) — 30 minutes at one sample per 2s.
+ *  The store lives in a provider in Layout, above the routes, so the
+ *  connection, the buffers and the alerts carry on while you're on
+ *  another page; coming back to the Dashboard shows the last half
+ *  hour, not an empty chart.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createContext, createSignal, onCleanup, useContext, type ParentProps } from "solid-js";
+import { healthSource, type HealthSample, type HealthSource } from "~/data/systemHealth";
+import { useFormat, type Formatters } from "./locale";
+import { useNotifications } from "./notifications";
+import { createSampleBuffer, type Reading } from "./sampleBuffer";
+
+export type HealthLevel = "ok" | "warning" | "critical";
+
+export interface HealthMetric {
+  /** Key in a sample's `values` */
+  id: string;
+  label: string;
+  /** Full scale of the bar */
+  max: number;
+  /** A value with its unit, in the profile's locale */
+  format: (value: number, f: Formatters) => string;
+  /** Label the bar "value / max" rather than just the value */
+  showMax?: boolean;
+  warning: number;
+  critical: number;
+  /** Bar color while healthy */
+  color: string;
+  /** Raise notifications on threshold crossings (default true) */
+  alert?: boolean;
+}
+
+const percent = (value: number, f: Formatters) => f.number(value / 100, { style: "percent" });
+
+export const healthMetrics: HealthMetric[] = [
+  { id: "cpu", label: "CPU Usage", max: 100, format: percent, warning: 75, critical: 90, color: "bg-accent" },
+  {
+    id: "memory",
+    label: "Memory",
+    max: 8,
+    format: (value, f) => f.number(value, { style: "unit", unit: "gigabyte", maximumFractionDigits: 1 }),
+    showMax: true,
+    warning: 6.4,
+    critical: 7.4,
+    color: "bg-emerald-500",
+  },
+  { id: "disk", label: "Disk I/O", max: 100, format: percent, warning: 70, critical: 90, color: "bg-violet-500" },
+  {
+    id: "network",
+    label: "Network",
+    max: 1000,
+    format: (value, f) => f.number(value, { style: "unit", unit: "megabit-per-second", maximumFractionDigits: 0 }),
+    warning: 800,
+    critical: 950,
+    color: "bg-sky-500",
+  },
+];
+
+export const levelColor: Record<Exclude<HealthLevel, "ok">, string> = {
+  warning: "bg-amber-500",
+  critical: "bg-red-500",
+};
+
+const levelRank: Record<HealthLevel, number> = { ok: 0, warning: 1, critical: 2 };
+
+// Back to "ok" only below 90% of the warning line
+const RECOVERY_MARGIN = 0.9;
+
+export function healthLevel(metric: HealthMetric, value: number): HealthLevel {
+  if (value >= metric.critical) return "critical";
+  if (value >= metric.warning) return "warning";
+  return "ok";
+}
+
+/** Delay before reconnect attempt `attempt` (0-based): exponential, capped, jittered */
+export function backoffDelay(attempt: number, random = Math.random, baseMs = 1000, maxMs = 30_000): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + random() * (ceiling / 2);
+}
+
+// 30 minutes at the sources' 2s interval
+export const HISTORY_CAPACITY = 900;
+
+export type ConnectionStatus = "connecting" | "live" | "reconnecting" | "paused";
+
+export interface SystemHealthOptions {
+  source?: HealthSource;
+  metrics?: HealthMetric[];
+}
+
+function createSystemHealth(options: SystemHealthOptions = {}) {
+  const source = options.source ?? healthSource;
+  const metrics = options.metrics ?? healthMetrics;
+  const notifications = useNotifications();
+  const format = useFormat();
+
+  const [sample, setSample] = createSignal<HealthSample | null>(null);
+  const [status, setStatus] = createSignal<ConnectionStatus>("connecting");
+  /** When the pending reconnect fires (epoch ms) */
+  const [retryAt, setRetryAt] = createSignal<number | null>(null);
+
+  const buffers = new Map(metrics.map((m) => [m.id, createSampleBuffer(HISTORY_CAPACITY)]));
+  // The buffers aren't reactive; this counts pushes so readers re-run
+  const [version, setVersion] = createSignal(0);
+
+  // ── Connection ──
+
+  let stop: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+
+  function disconnect() {
+    stop?.();
+    stop = null;
+    clearTimeout(retryTimer);
+    setRetryAt(null);
+  }
+
+  function connect() {
+    disconnect();
+    setStatus(attempt === 0 ? "connecting" : "reconnecting");
+    stop = source.connect(
+      (next) => {
+        attempt = 0;
+        setStatus("live");
+        setSample(next);
+        record(next);
+        checkThresholds(next);
+      },
+      () => {
+        stop = null;
+        const delay = backoffDelay(attempt++);
+        setStatus("reconnecting");
+        setRetryAt(Date.now() + delay);
+        retryTimer = setTimeout(connect, delay);
+      }
+    );
+  }
+
+  function handleVisibility() {
+    if (document.hidden) {
+      disconnect();
+      setStatus("paused");
+    } else {
+      attempt = 0;
+      connect();
+    }
+  }
+
+  if (document.hidden) setStatus("paused");
+  else connect();
+  document.addEventListener("visibilitychange", handleVisibility);
+  onCleanup(() => {
+    document.removeEventListener("visibilitychange", handleVisibility);
+    disconnect();
+  });
+
+  function record(next: HealthSample) {
+    for (const [id, buffer] of buffers) {
+      const value = next.values[id];
+      if (value !== undefined) buffer.push(next.at, value);
+    }
+    setVersion((v) => v + 1);
+  }
+
+  // ── Thresholds ──
+
+  // The highest level alerted since each metric was last ok
+  const alerted: Record<string, HealthLevel> = {};
+
+  function checkThresholds(next: HealthSample) {
+    for (const metric of metrics) {
+      const value = next.values[metric.id];
+      if (value === undefined) continue;
+      const level = healthLevel(metric, value);
+      const previous = alerted[metric.id] ?? "ok";
+      const shown = metric.format(value, format());
+
+      if (levelRank[level] > levelRank[previous]) {
+        alerted[metric.id] = level;
+        if (metric.alert === false) continue;
+        const threshold = metric.format(level === "critical" ? metric.critical : metric.warning, format());
+        notifications.notify({
+          category: "systemAlerts",
+          title: `${metric.label} ${level}: ${shown}`,
+          body: `Above the ${level} threshold of ${threshold}`,
+          urgent: level === "critical",
+        });
+      } else if (previous !== "ok" && value < metric.warning * RECOVERY_MARGIN) {
+        alerted[metric.id] = "ok";
+        if (metric.alert === false) continue;
+        notifications.notify({ category: "systemAlerts", title: `${metric.label} back to normal`, body: shown });
+      }
+    }
+  }
+
+  return {
+    metrics,
+    status,
+    retryAt,
+    /** Epoch ms of the latest sample */
+    updatedAt: () => sample()?.at ?? null,
+    value: (id: string): number | undefined => sample()?.values[id],
+    level(metric: HealthMetric): HealthLevel {
+      const value = sample()?.values[metric.id];
+      return value === undefined ? "ok" : healthLevel(metric, value);
+    },
+    /** Readings of one metric since `from` (epoch ms), oldest first */
+    history(id: string, from?: number): Reading[] {
+      version();
+      return buffers.get(id)?.since(from) ?? [];
+    },
+    /** Skips the backoff wait */
+    reconnect() {
+      attempt = 0;
+      connect();
+    },
+  };
+}
+
+export type SystemHealthStore = ReturnType<typeof createSystemHealth>;
+
+const SystemHealthContext = createContext<SystemHealthStore>();
+
+/**
+ * Connects when created and disconnects with the app. Needs notifications
+ * and locale above it: alerts go through `notify()` and quote
+ * formatted values.
+ */
+export function SystemHealthProvider(props: ParentProps<SystemHealthOptions>) {
+  const store = createSystemHealth({ source: props.source, metrics: props.metrics });
+  return <SystemHealthContext.Provider value={store}>{props.children}</SystemHealthContext.Provider>;
+}
+
+export function useSystemHealth(): SystemHealthStore {
+  const ctx = useContext(SystemHealthContext);
+  if (!ctx) throw new Error("useSystemHealth must be used within <SystemHealthProvider>");
+  return ctx;
+}
@@ -0,0 +1,131 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  useSearchParams — the URL as a store
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  The Team Members table keeps NO local state for page, size, sort
+ *  or filters. The query string is the single source of truth:
+ *
+ *    /?page=3&size=25&sort=revenue&order=desc&q=emily&status=Active
+ *    /?view=scroll                 ← infinite-scroll mode instead of pages
+ *
+ *  `searchParams` from the router is reactive — reading
+ *  `searchParams.page` inside a memo subscribes to it, exactly like a
+ *  store property. So reloads, shared links and back/forward all
+ *  "just work": the URL changes → the memo re-parses → the resource
+ *  refetches.
+ *
+ *  The URL is user input, so parsing never throws. Anything missing,
+ *  malformed or out of range falls back to a sane value.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createMemo, untrack, type Accessor } from "solid-js";
+import { useSearchParams } from "@solidjs/router";
+import type { SortState } from "~/data/source";
+import { memberStatuses, type MemberRow } from "~/data/members";
+
+export const PAGE_SIZES = [8, 25, 50, 100] as const;
+export const DEFAULT_PAGE_SIZE = PAGE_SIZES[0];
+
+export type TableView = "paged" | "scroll";
+
+export interface MemberFilters {
+  search: string;
+  status: MemberRow["status"] | null;
+  role: string | null;
+}
+
+export interface TableState {
+  view: TableView;
+  page: number;       // zero-based here, one-based in the URL
+  pageSize: number;   // always one of PAGE_SIZES
+  sort: SortState<MemberRow> | null;
+  filters: MemberFilters;
+}
+
+export const emptyFilters: MemberFilters = { search: "", status: null, role: null };
+
+const sortableKeys: SortState<MemberRow>["key"][] = ["id", "name", "email", "role", "status", "revenue", "age"];
+
+// ── Parsing (URL → state) ──
+
+type RawParams = Partial<Record<string, string | string[]>>;
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function clampInt(value: string | undefined, fallback: number, min: number, max: number): number {
+  const n = Number.parseInt(value ?? "", 10);
+  if (Number.isNaN(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+// ?size=30 isn't offered in the selector, so snap to the nearest size that is
+function snapPageSize(value: string | undefined): number {
+  const n = Number.parseInt(value ?? "", 10);
+  if (Number.isNaN(n)) return DEFAULT_PAGE_SIZE;
+  return PAGE_SIZES.reduce((best, size) => (Math.abs(size - n) < Math.abs(best - n) ? size : best));
+}
+
+export function parseTableState(params: RawParams): TableState {
+  const sortKey = single(params.sort) as SortState<MemberRow>["key"] | undefined;
+  const order = single(params.order);
+  const status = single(params.status) as MemberRow["status"] | undefined;
+
+  return {
+    view: single(params.view) === "scroll" ? "scroll" : "paged",
+    page: clampInt(single(params.page), 1, 1, Number.MAX_SAFE_INTEGER) - 1,
+    pageSize: snapPageSize(single(params.size)),
+    sort:
+      sortKey && sortableKeys.includes(sortKey)
+        ? { key: sortKey, direction: order === "desc" ? "desc" : "asc" }
+        : null,
+    filters: {
+      search: single(params.q)?.trim() ?? "",
+      status: status && memberStatuses.includes(status) ? status : null,
+      role: single(params.role) || null,
+    },
+  };
+}
+
+// ── Serializing (state → URL) ──
+// Defaults become `null`, which the router drops from the query string,
+// so the untouched table lives at a clean `/`.
+
+function toSearchParams(state: TableState) {
+  return {
+    view: state.view === "scroll" ? "scroll" : null,
+    page: state.page > 0 ? state.page + 1 : null,
+    size: state.pageSize !== DEFAULT_PAGE_SIZE ? state.pageSize : null,
+    sort: state.sort?.key ?? null,
+    order: state.sort?.direction === "desc" ? "desc" : null,
+    q: state.filters.search || null,
+    status: state.filters.status,
+    role: state.filters.role,
+  };
+}
+
+const sameState = (a: TableState, b: TableState) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Returns the parsed table state and an updater that writes a patch
+ * back to the URL. Each update is a history entry unless `replace` is
+ * set, so back/forward steps through table states.
+ */
+export function useTableParams(): [
+  state: Accessor<TableState>,
+  update: (patch: Partial<TableState>, options?: { replace?: boolean }) => void,
+] {
+  const [params, setParams] = useSearchParams();
+
+  // Custom `equals` → unrelated URL changes don't produce a "new"
+  // state, so they don't trigger a refetch
+  const state = createMemo(() => parseTableState(params), undefined, { equals: sameState });
+
+  function update(patch: Partial<TableState>, options?: { replace?: boolean }) {
+    setParams(toSearchParams({ ...untrack(state), ...patch }), options);
+  }
+
+  return [state, update];
+}
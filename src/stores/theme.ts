@@ -0,0 +1,69 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *  Theme — design tokens switched by one attribute
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ *
+ *  Components never pick light or dark colors. They use semantic
+ *  utilities — bg-surface, text-fg-muted, border-line, bg-accent —
+ *  backed by CSS custom properties (see index.css). The theme is one
+ *  attribute on <html>:
+ *
+ *    <html data-theme="dark">  →  --surface, --fg, … switch values
+ *
+ *  so a theme change is a single DOM write, and no component re-renders.
+ *
+ *  "system" follows the OS through matchMedia, live: flipping the OS
+ *  to dark mode fires a `change` event, the signal updates, and the
+ *  effect rewrites the attribute.
+ *
+ *  The very first paint is handled before any of this runs, by an
+ *  inline script in index.html that reads the stored preference —
+ *  otherwise a dark-theme user would see a white flash while the app
+ *  bundle loads.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+import { createEffect, createMemo, createSignal, onCleanup, type Accessor } from "solid-js";
+
+export type ThemePreference = "light" | "dark" | "system";
+export type Theme = "light" | "dark";
+
+export const themePreferences: { value: ThemePreference; label: string }[] = [
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+  { value: "system", label: "System" },
+];
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+/** The OS color scheme, updated live */
+export function createSystemTheme(): Accessor<Theme> {
+  const query = window.matchMedia(DARK_QUERY);
+  const [theme, setTheme] = createSignal<Theme>(query.matches ? "dark" : "light");
+  const onChange = (e: MediaQueryListEvent) => setTheme(e.matches ? "dark" : "light");
+  query.addEventListener("change", onChange);
+  onCleanup(() => query.removeEventListener("change", onChange));
+  return theme;
+}
+
+// Anything unrecognized (e.g. a hand-edited import) means "system"
+export function resolveTheme(preference: string, system: Theme): Theme {
+  return preference === "light" || preference === "dark" ? preference : system;
+}
+
+export function applyTheme(theme: Theme) {
+  const root = document.documentElement;
+  root.dataset.theme = theme;
+  // Native controls (scrollbars, date pickers, <select>) follow too
+  root.style.colorScheme = theme;
+}
+
+/**
+ * Keeps <html data-theme> in step with a preference. Returns the
+ * resolved theme for anything that needs it in JS (charts, canvases).
+ */
+export function createTheme(preference: Accessor<string>): Accessor<Theme> {
+  const system = createSystemTheme();
+  const theme = createMemo(() => resolveTheme(preference(), system()));
+  createEffect(() => applyTheme(theme()));
+  return theme;
+}
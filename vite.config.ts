@@ -1,10 +1,81 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import solid from "vite-plugin-solid";
 import tailwindcss from "@tailwindcss/vite";
 import { resolve } from "path";
+import { createHealthSimulator } from "./src/data/healthSimulator";
+import { METRICS_HISTORY_DAYS, mockDailyMetrics } from "./src/data/metricsSimulator";
+
+/**
+ * Dev-only stand-in for the health API, so VITE_HEALTH_SOURCE=poll
+ * or =sse works without a backend:
+ *
+ *   GET /api/health         → one sample (JSON)
+ *   GET /api/health/stream  → a sample every 2s (Server-Sent Events)
+ */
+function mockHealthServer(): Plugin {
+  return {
+    name: "mock-health-server",
+    apply: "serve",
+    configureServer(server) {
+      const next = createHealthSimulator();
+
+      server.middlewares.use("/api/health/stream", (req, res) => {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        const send = () => res.write(`data: ${JSON.stringify(next())}\n\n`);
+        send();
+        const timer = setInterval(send, 2000);
+        req.on("close", () => clearInterval(timer));
+      });
+
+      server.middlewares.use("/api/health", (req, res, nextMiddleware) => {
+        // use() matches prefixes; leave anything else under it alone
+        if ((req.url ?? "/").split("?")[0] !== "/") return nextMiddleware();
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(next()));
+      });
+    },
+  };
+}
+
+/**
+ * Dev-only stand-in for the metrics API, so VITE_METRICS_SOURCE=rest
+ * works without a backend. Speaks the dummyjson dialect createRestSource
+ * expects:
+ *
+ *   GET /api/metrics/daily?limit=14&skip=0&sortBy=day&order=desc
+ *     → { days: [...], total: 730 }
+ */
+function mockMetricsServer(): Plugin {
+  return {
+    name: "mock-metrics-server",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/api/metrics/daily", (req, res, nextMiddleware) => {
+        const [path, search] = (req.url ?? "/").split("?");
+        if (path !== "/") return nextMiddleware();
+        const query = new URLSearchParams(search);
+        // Oldest first, which is also ascending by day
+        const rows = mockDailyMetrics(new Date(), METRICS_HISTORY_DAYS);
+        const sorted = query.get("sortBy") === "day" && query.get("order") === "desc" ? rows.slice().reverse() : rows;
+        // limit=0 means every row, as on dummyjson
+        const skip = Number(query.get("skip") ?? 0);
+        const limit = Number(query.get("limit") ?? 30);
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({
+          days: sorted.slice(skip, limit > 0 ? skip + limit : undefined),
+          total: rows.length,
+        }));
+      });
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [solid(), tailwindcss()],
+  plugins: [solid(), tailwindcss(), mockHealthServer(), mockMetricsServer()],
   resolve: {
     alias: {
       "~": resolve(__dirname, "./src"),